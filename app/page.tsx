@@ -2,11 +2,60 @@
 
 import type React from "react"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { AuthSetup } from "@/components/auth/auth-setup"
 import { SyncStatus } from "@/components/sync/sync-status"
 import { authManager, AuthState } from "@/lib/auth-manager"
 import { syncManager } from "@/lib/sync-manager"
+import { archiveDay, getHabitNotes, loadHistory, setCheckInNote, setPastCheckIn, toDateKey } from "@/lib/habit-history"
+import { computeAllStreaks } from "@/lib/habit-stats"
+import { filterDueHabits, getQuotaProgress, isHabitDue, QuotaProgress } from "@/lib/habit-schedule"
+import { adjustProgress, getCompletionRatio, getProgressValue, getTargetValue, isProgressHabit, isTargetReached } from "@/lib/habit-progress"
+import { getRunningSeconds, HabitTimers, HabitTimerState, isTimersStorageKey, loadTimers, saveTimers } from "@/lib/habit-timer"
+import { AppSettings, CheckInWindow, CountProgress, HabitFilter, HabitHistory, HabitKind, HabitSchedule, HabitSlot, HabitSubtask, ReminderSettings as ReminderSettingsValue, SkipPolicy } from "@/lib/types"
+import { HabitStreakPopover } from "@/components/habits/habit-streak-popover"
+import { HabitHeatmap } from "@/components/habits/habit-heatmap"
+import { HabitStatsDashboard } from "@/components/habits/habit-stats-dashboard"
+import { HabitScheduleEditor } from "@/components/habits/habit-schedule-editor"
+import { HabitGoal, HabitGoalEditor } from "@/components/habits/habit-goal-editor"
+import { HabitTimerControls } from "@/components/habits/habit-timer-controls"
+import { HabitNotePopover } from "@/components/habits/habit-note-popover"
+import { HabitGroupEditor } from "@/components/habits/habit-group-editor"
+import { HabitArchiveList } from "@/components/habits/habit-archive-list"
+import { HabitTrashList } from "@/components/habits/habit-trash-list"
+import { HabitReminderEditor } from "@/components/habits/habit-reminder-editor"
+import { ReminderSettings } from "@/components/habits/reminder-settings"
+import { DayBoundarySettings } from "@/components/habits/day-boundary-settings"
+import { PastDayEditor } from "@/components/habits/past-day-editor"
+import { HabitSkipPopover } from "@/components/habits/habit-skip-popover"
+import { HabitTemplateLibrary } from "@/components/habits/habit-template-library"
+import { OnboardingWizard } from "@/components/onboarding/onboarding-wizard"
+import { createHabitFromTemplate, HabitTemplate } from "@/lib/habit-templates"
+import { markOnboardingCompleted, shouldShowOnboarding } from "@/lib/onboarding"
+import { countCompletedSubtasks, hasChecklist, setAllSubtasks, withChecklistCompletion } from "@/lib/habit-subtasks"
+import { HabitSubtaskEditor } from "@/components/habits/habit-subtask-editor"
+import { HabitSlotEditor, HabitTiming } from "@/components/habits/habit-slot-editor"
+import { DEFAULT_FILTER, getAllTags, isFilterActive, matchesFilter } from "@/lib/habit-filters"
+import { HabitTagEditor } from "@/components/habits/habit-tag-editor"
+import { HabitFilterBar } from "@/components/habits/habit-filter-bar"
+import { describeWindow, getCurrentSlot, hasWindow, isCheckInOnTime, isWithinWindow, sortBySlot } from "@/lib/habit-slots"
+import { DEFAULT_SETTINGS, getReminderSettings, isSettingsStorageKey, loadSettings, saveSettings } from "@/lib/app-settings"
+import { 
+  getDueReminders, 
+  isReminderMessage, 
+  loadReminderStates, 
+  markReminderFired, 
+  registerReminderWorker, 
+  saveReminderStates, 
+  showReminderNotification, 
+  snoozeReminder 
+} from "@/lib/habit-reminders"
+import { getRetentionDays, splitExpiredTrash } from "@/lib/habit-trash"
+import { rolloverIfNewDay, ROLLOVER_CHECK_INTERVAL } from "@/lib/daily-rollover"
+import { applyUndoEntry, createUndoEntry, MAX_UNDO_ENTRIES, UndoEntry } from "@/lib/undo-history"
+import { toast } from "@/hooks/use-toast"
+import { computeMovedOrder, sortByOrder } from "@/lib/habit-order"
+import { getGroupNames, groupHabits, HabitGroupSection, loadCollapsedGroups, saveCollapsedGroups } from "@/lib/habit-groups"
 
 // 导入修复工具和测试工具，使其在浏览器中可用
 if (typeof window !== 'undefined') {
@@ -17,7 +66,20 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Checkbox } from "@/components/ui/checkbox"
-import { Plus, EyeOff, Trash2, RotateCcw, Sun, Moon, Cloud, CloudOff, Settings } from "lucide-react"
+import { Progress } from "@/components/ui/progress"
+import { ToastAction } from "@/components/ui/toast"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Plus, Minus, Pencil, Trash2, RotateCcw, Sun, Moon, Cloud, CloudOff, Settings, CalendarDays, BarChart3, ChevronDown, GripVertical, Archive, Trash, Bell, Clock, History, Library } from "lucide-react"
 import { useTheme } from "next-themes"
 
 interface TodoItem {
@@ -25,16 +87,61 @@ interface TodoItem {
   text: string
   completed: boolean
   hidden: boolean  // 是否隐藏（而非删除）
+  completedAt?: string  // 完成时间
+  schedule?: HabitSchedule  // 打卡计划（未设置为每天）
+  kind?: HabitKind  // 习惯类型（未设置为打勾型）
+  target?: number  // 计数型每日目标 / 计时型目标分钟数
+  unit?: string  // 计数单位
+  progress?: CountProgress  // 计数/计时型当天进度（计时型为秒）
+  group?: string  // 所属分组
+  order?: number  // 排序键
+  orderedAt?: string  // 排序修改时间
+  archivedAt?: string  // 归档时间（已归档的功课暂停打卡）
+  deletedAt?: string  // 移入回收站的时间
+  reminderTime?: string  // 每日提醒时间（HH:mm）
+  skipReason?: string  // 今日跳过的原因
+  subtasks?: HabitSubtask[]  // 子步骤清单（按顺序）
+  slot?: HabitSlot  // 时段（未设置为任意）
+  window?: CheckInWindow  // 打卡时间窗
+  tags?: string[]  // 标签
+  tagsUpdatedAt?: string  // 标签修改时间
   createdAt: string
+  updatedAt?: string  // 最后修改时间（旧数据没有此字段）
 }
 
 export default function DailyTodoApp() {
   const [todos, setTodos] = useState<TodoItem[]>([])
   const [newTodo, setNewTodo] = useState("")
+  const [newSchedule, setNewSchedule] = useState<HabitSchedule | undefined>(undefined)
+  const [newGoal, setNewGoal] = useState<HabitGoal>({})
+  const [newGroup, setNewGroup] = useState<string | undefined>(undefined)
+  const [collapsedGroups, setCollapsedGroups] = useState<string[]>([])
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingText, setEditingText] = useState("")
   const [lastResetDate, setLastResetDate] = useState("")
   const [celebratingId, setCelebratingId] = useState<string | null>(null)
+  const [history, setHistory] = useState<HabitHistory>({})
   const [authState, setAuthState] = useState<AuthState>(authManager.getAuthState())
   const [showAuthSetup, setShowAuthSetup] = useState(false)
+  const [showHeatmap, setShowHeatmap] = useState(false)
+  const [showStats, setShowStats] = useState(false)
+  const [showPastDays, setShowPastDays] = useState(false)
+  const [showArchive, setShowArchive] = useState(false)
+  const [showTrash, setShowTrash] = useState(false)
+  const [showTemplates, setShowTemplates] = useState(false)
+  const [showOnboarding, setShowOnboarding] = useState(false)
+  const [filter, setFilter] = useState<HabitFilter>(DEFAULT_FILTER)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS)
+  const [undoStack, setUndoStack] = useState<UndoEntry<TodoItem>[]>([])
+  const [redoStack, setRedoStack] = useState<UndoEntry<TodoItem>[]>([])
+  const undoActionsRef = useRef({ undo: () => {}, redo: () => {} })
+  const rolloverActionRef = useRef(() => {})
+  const [pendingReminder, setPendingReminder] = useState<{ action: string; habitId: string } | null>(null)
+  const reminderActionsRef = useRef({ check: () => {}, handle: (_action: string, _habitId: string) => {} })
+  const [timers, setTimers] = useState<HabitTimers>({})
+  const [now, setNow] = useState(Date.now())
   const { theme, setTheme } = useTheme()
 
   // 监听认证状态变化
@@ -43,40 +150,191 @@ export default function DailyTodoApp() {
     return unsubscribe
   }, [])
 
-  // 检查是否需要重置任务（新的一天）
+  // 同步成功后重新加载功课、打卡历史与设置（同步前可能已完成每日重置），使统计与其他设备保持一致
   useEffect(() => {
-    const today = new Date().toDateString()
-    const savedTodos = localStorage.getItem("dailyTodos")
-    const savedResetDate = localStorage.getItem("lastResetDate")
-
-    if (savedResetDate !== today) {
-      // 新的一天，重置所有任务状态：未完成 + 恢复隐藏的任务
-      if (savedTodos) {
-        const parsedTodos = JSON.parse(savedTodos)
-        const resetTodos = parsedTodos.map((todo: TodoItem) => ({
-          ...todo,
-          completed: false,  // 重置为未完成
-          hidden: false,     // 恢复所有隐藏的任务
-        }))
-        setTodos(resetTodos)
-        localStorage.setItem("dailyTodos", JSON.stringify(resetTodos))
+    const unsubscribe = syncManager.onSyncStateChange((state) => {
+      if (state.status === 'success') {
+        loadSavedTodos()
+        setHistory(loadHistory())
+        setSettings(loadSettings())
       }
-      setLastResetDate(today)
-      localStorage.setItem("lastResetDate", today)
-    } else {
-      // 同一天，加载保存的任务
-      if (savedTodos) {
-        setTodos(JSON.parse(savedTodos))
+    })
+    return unsubscribe
+  }, [])
+
+  // 同步前完成了每日重置时（同步可能随后冲突或失败）立即重新加载，避免之后的操作写回前一天的状态
+  useEffect(() => {
+    const unsubscribe = syncManager.onRollover(reloadAfterRollover)
+    return unsubscribe
+  }, [])
+
+  // 其他标签页修改了功课、计时器或设置（如提醒设置）时同步到当前页面
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === "dailyTodos" && e.newValue) {
+        setTodos(JSON.parse(e.newValue))
+      } else if (e.key === "lastResetDate" && e.newValue) {
+        setLastResetDate(e.newValue)
+      } else if (isTimersStorageKey(e.key)) {
+        setTimers(loadTimers())
+      } else if (isSettingsStorageKey(e.key)) {
+        setSettings(loadSettings())
+      }
+    }
+    window.addEventListener("storage", handleStorage)
+    return () => window.removeEventListener("storage", handleStorage)
+  }, [])
+
+  // 有计时器运行时每秒刷新一次
+  const hasRunningTimer = Object.values(timers).some((timer) => timer.status === "running")
+  useEffect(() => {
+    if (!hasRunningTimer) return
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [hasRunningTimer])
+
+  // 每分钟刷新一次，使时段排序与打卡时间窗随时间更新
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  // 快捷键：Ctrl+Z 撤销，Ctrl+Shift+Z / Ctrl+Y 重做（输入框内保留原生行为）
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return
+      const target = e.target as HTMLElement | null
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) return
+
+      const key = e.key.toLowerCase()
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault()
+        undoActionsRef.current.undo()
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault()
+        undoActionsRef.current.redo()
       }
-      setLastResetDate(savedResetDate || today)
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [])
+
+  // 注册提醒 Service Worker，并接收通知按钮的操作
+  useEffect(() => {
+    registerReminderWorker()
+
+    // 从通知打开应用时，操作通过地址参数传入
+    const params = new URLSearchParams(window.location.search)
+    const action = params.get("reminderAction")
+    const habitId = params.get("habitId")
+    if (action && habitId) {
+      setPendingReminder({ action, habitId })
+      window.history.replaceState(null, "", window.location.pathname)
+    }
+
+    if (!("serviceWorker" in navigator)) return
+    const handleMessage = (e: MessageEvent) => {
+      if (isReminderMessage(e.data)) {
+        reminderActionsRef.current.handle(e.data.action, e.data.habitId)
+      }
+    }
+    navigator.serviceWorker.addEventListener("message", handleMessage)
+    return () => navigator.serviceWorker.removeEventListener("message", handleMessage)
+  }, [])
+
+  // 每30秒检查一次是否有需要提醒的功课
+  useEffect(() => {
+    const interval = setInterval(() => reminderActionsRef.current.check(), 30000)
+    return () => clearInterval(interval)
+  }, [])
+
+  // 功课加载后再处理从通知带入的操作
+  useEffect(() => {
+    if (!pendingReminder || todos.length === 0) return
+    reminderActionsRef.current.handle(pendingReminder.action, pendingReminder.habitId)
+    setPendingReminder(null)
+  }, [pendingReminder, todos])
+
+  // 检查是否需要重置任务（新的一天），然后加载保存的任务
+  useEffect(() => {
+    rolloverIfNewDay()
+    loadSavedTodos()
+    setHistory(loadHistory())
+    setTimers(loadTimers())
+    setCollapsedGroups(loadCollapsedGroups())
+    setSettings(loadSettings())
+    purgeExpiredTrash()
+    setShowOnboarding(shouldShowOnboarding())
+  }, [])
+
+  // 页面保持打开时定期及唤醒、切回页面时检查是否跨天
+  useEffect(() => {
+    const checkRollover = () => rolloverActionRef.current()
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") checkRollover()
+    }
+
+    const interval = setInterval(checkRollover, ROLLOVER_CHECK_INTERVAL)
+    document.addEventListener("visibilitychange", handleVisibilityChange)
+    window.addEventListener("focus", checkRollover)
+    return () => {
+      clearInterval(interval)
+      document.removeEventListener("visibilitychange", handleVisibilityChange)
+      window.removeEventListener("focus", checkRollover)
     }
   }, [])
 
+  // 从本地存储加载任务与上次重置日期
+  const loadSavedTodos = () => {
+    const savedTodos = localStorage.getItem("dailyTodos")
+    if (savedTodos) {
+      setTodos(JSON.parse(savedTodos))
+    }
+    setLastResetDate(localStorage.getItem("lastResetDate") || toDateKey())
+  }
+
+  // 跨天时归档并重置
+  const handleRollover = () => {
+    if (!rolloverIfNewDay()) return
+    reloadAfterRollover()
+    requestSync()
+  }
+
+  // 重置后重新加载功课、历史与计时器，旧的撤销记录不再适用
+  const reloadAfterRollover = () => {
+    loadSavedTodos()
+    setHistory(loadHistory())
+    setTimers(loadTimers())
+    setUndoStack([])
+    setRedoStack([])
+  }
+
+  // 彻底删除回收站中超过保留期的功课
+  const purgeExpiredTrash = () => {
+    const savedTodos = localStorage.getItem("dailyTodos")
+    if (!savedTodos) return
+
+    const { kept, expiredIds } = splitExpiredTrash<TodoItem>(JSON.parse(savedTodos), getRetentionDays(loadSettings()))
+    if (expiredIds.length === 0) return
+
+    setTodos(kept)
+    localStorage.setItem("dailyTodos", JSON.stringify(kept))
+    if (authState.isAuthenticated) {
+      expiredIds.forEach((id) => syncManager.markHabitAsDeleted(id))
+    }
+  }
+
   // 保存任务到本地存储并触发同步
   const saveTodos = (updatedTodos: TodoItem[]) => {
     localStorage.setItem("dailyTodos", JSON.stringify(updatedTodos))
-    
-    // 如果已认证，标记为有待同步的更改
+    // 同步记录今日打卡情况
+    const todayKey = toDateKey()
+    setHistory(archiveDay(todayKey, filterDueHabits(updatedTodos, todayKey, loadHistory())))
+    requestSync()
+  }
+
+  // 如果已认证，标记有待同步的更改并延迟同步
+  const requestSync = () => {
     if (authState.isAuthenticated) {
       syncManager.markPendingChanges()
       
@@ -89,48 +347,468 @@ export default function DailyTodoApp() {
     }
   }
 
+  // 可撤销的修改：记录修改前后的状态并保存
+  const commitTodos = (updatedTodos: TodoItem[], label: string) => {
+    const entry = createUndoEntry(label, todos, updatedTodos)
+    if (entry) {
+      setUndoStack([...undoStack, entry].slice(-MAX_UNDO_ENTRIES))
+      setRedoStack([])
+      showUndoToast(`已${label}`, "撤销", () => undoActionsRef.current.undo())
+    }
+    setTodos(updatedTodos)
+    saveTodos(updatedTodos)
+  }
+
+  // 计数/计时进度以增量方式回退，避免同步合并时被其他设备的计数覆盖
+  const restoreProgress = (target: TodoItem, current: TodoItem | undefined): TodoItem => {
+    if (!current || !isProgressHabit(target)) return target
+    const todayKey = toDateKey()
+    const delta = getProgressValue(target.progress, todayKey) - getProgressValue(current.progress, todayKey)
+    if (delta === 0) return { ...target, progress: current.progress }
+    return withProgressCompletion(
+      { ...target, progress: adjustProgress(current.progress, todayKey, delta) },
+      target
+    )
+  }
+
+  // 应用撤销记录并走正常的保存与同步流程
+  const applyUndo = (entry: UndoEntry<TodoItem>, direction: "undo" | "redo") => {
+    const { items, removedIds, restoredIds } = applyUndoEntry(todos, entry, direction, restoreProgress)
+    setTodos(items)
+    saveTodos(items)
+
+    // 撤销新增时记录删除，重做时清除删除记录，避免同步后习惯重新出现或被丢弃
+    if (authState.isAuthenticated) {
+      removedIds.forEach((id) => syncManager.markHabitAsDeleted(id))
+    }
+    restoredIds.forEach((id) => syncManager.unmarkHabitAsDeleted(id))
+  }
+
+  // 撤销上一步操作
+  const undo = () => {
+    const entry = undoStack[undoStack.length - 1]
+    if (!entry) return
+    applyUndo(entry, "undo")
+    setUndoStack(undoStack.slice(0, -1))
+    setRedoStack([...redoStack, entry])
+    showUndoToast(`已撤销：${entry.label}`, "重做", () => undoActionsRef.current.redo())
+  }
+
+  // 重做被撤销的操作
+  const redo = () => {
+    const entry = redoStack[redoStack.length - 1]
+    if (!entry) return
+    applyUndo(entry, "redo")
+    setRedoStack(redoStack.slice(0, -1))
+    setUndoStack([...undoStack, entry])
+    showUndoToast(`已重做：${entry.label}`, "撤销", () => undoActionsRef.current.undo())
+  }
+
+  // 提示框中的操作总是调用最新的撤销/重做
+  undoActionsRef.current = { undo, redo }
+  rolloverActionRef.current = handleRollover
+
+  // 显示带撤销/重做按钮的提示
+  const showUndoToast = (title: string, actionText: string, onAction: () => void) => {
+    toast({
+      title,
+      action: (
+        <ToastAction altText={actionText} onClick={onAction}>
+          {actionText}
+        </ToastAction>
+      ),
+    })
+  }
+
   // 添加新任务
   const addTodo = () => {
     if (newTodo.trim()) {
+      const now = new Date().toISOString()
       const newTodoItem: TodoItem = {
         id: Date.now().toString(),
         text: newTodo.trim(),
         completed: false,
         hidden: false,  // 新任务默认显示
-        createdAt: new Date().toISOString(),
+        schedule: newSchedule,
+        ...newGoal,
+        group: newGroup,
+        createdAt: now,
+        updatedAt: now,
       }
-      const updatedTodos = [...todos, newTodoItem]
+      commitTodos([...todos, newTodoItem], "添加功课")
+      setNewTodo("")
+      setNewSchedule(undefined)
+      setNewGoal({})
+    }
+  }
+
+  // 从模板库批量添加功课（已有同名功课的模板跳过）
+  const addTemplates = (templates: HabitTemplate[]) => {
+    const existingTexts = new Set(todos.filter((todo) => !todo.deletedAt).map((todo) => todo.text))
+    const now = new Date().toISOString()
+    const newTodoItems: TodoItem[] = templates
+      .filter((template) => !existingTexts.has(template.text))
+      .map((template, index) => ({
+        ...createHabitFromTemplate(template),
+        id: `${Date.now()}-${index}`,
+        createdAt: now,
+        updatedAt: now,
+      }))
+    if (newTodoItems.length === 0) return
+    commitTodos([...todos, ...newTodoItems], `添加 ${newTodoItems.length} 项功课`)
+    setShowTemplates(false)
+  }
+
+  // 结束新手引导
+  const finishOnboarding = () => {
+    markOnboardingCompleted()
+    setShowOnboarding(false)
+  }
+
+  // 保存今日打卡笔记
+  const saveNote = (id: string, note: string) => {
+    setHistory(setCheckInNote(toDateKey(), id, note))
+    requestSync()
+  }
+
+  // 补记过去某天的打卡（只修改历史记录，不影响今日状态）
+  const savePastCheckIn = (dateKey: string, id: string, completed: boolean) => {
+    const todo = todos.find((t) => t.id === id)
+    if (!todo) return
+    setHistory(setPastCheckIn(dateKey, todo, completed))
+    requestSync()
+  }
+
+  // 开始编辑习惯名称
+  const startEditing = (todo: TodoItem) => {
+    setEditingId(todo.id)
+    setEditingText(todo.text)
+  }
+
+  // 保存习惯名称（保留原ID与历史记录）
+  const commitEditing = () => {
+    if (!editingId) return
+    const text = editingText.trim()
+    const todo = todos.find((t) => t.id === editingId)
+    setEditingId(null)
+    if (!todo || !text || text === todo.text) return
+
+    const updatedTodos = todos.map((t) => 
+      t.id === todo.id ? { ...t, text, updatedAt: new Date().toISOString() } : t
+    )
+    commitTodos(updatedTodos, "修改名称")
+  }
+
+  // 修改时段与打卡时间窗
+  const updateTiming = (id: string, timing: HabitTiming) => {
+    const updatedTodos = todos.map((todo) => 
+      todo.id === id ? { ...todo, slot: timing.slot, window: timing.window, updatedAt: new Date().toISOString() } : todo
+    )
+    commitTodos(updatedTodos, "修改时段")
+  }
+
+  // 修改标签（标签单独记录修改时间，合并时不被其他修改覆盖）
+  const updateTags = (id: string, tags: string[] | undefined) => {
+    const updatedTodos = todos.map((todo) => 
+      todo.id === id ? { ...todo, tags, tagsUpdatedAt: new Date().toISOString() } : todo
+    )
+    commitTodos(updatedTodos, "修改标签")
+  }
+
+  // 修改所属分组
+  const updateGroup = (id: string, group: string | undefined) => {
+    const updatedTodos = todos.map((todo) => 
+      todo.id === id ? { ...todo, group, updatedAt: new Date().toISOString() } : todo
+    )
+    commitTodos(updatedTodos, "修改分组")
+  }
+
+  // 将习惯移动到另一习惯之前/之后，只更新被移动习惯的排序键
+  // 新位置按完整列表中的相邻习惯计算（列表可能按时段排列或经过筛选，屏幕上相邻的不一定在排序中相邻）
+  const moveTodo = (id: string, targetId: string, position: "before" | "after", group?: string | null) => {
+    const sorted = sortByOrder(todos)
+    const fromIndex = sorted.findIndex((todo) => todo.id === id)
+    const targetIndex = sorted.filter((todo) => todo.id !== id).findIndex((todo) => todo.id === targetId)
+    if (fromIndex === -1 || targetIndex === -1) return
+
+    const moved = sorted[fromIndex]
+    const toIndex = position === "before" ? targetIndex : targetIndex + 1
+    const groupChanged = group !== undefined && (group || undefined) !== (moved.group?.trim() || undefined)
+    if (fromIndex === toIndex && !groupChanged) return
+
+    const order = computeMovedOrder(sorted, fromIndex, toIndex)
+    const updatedTodos = todos.map((todo) => 
+      todo.id === id 
+        ? { 
+            ...todo, 
+            order, 
+            orderedAt: new Date().toISOString(), 
+            ...(groupChanged ? { group: group || undefined, updatedAt: new Date().toISOString() } : {}) 
+          } 
+        : todo
+    )
+    commitTodos(updatedTodos, "调整顺序")
+  }
+
+  // 拖放到目标习惯上：移动到目标位置（按屏幕上的方向放在其前或后）并加入目标所在分组
+  const handleDrop = (targetId: string) => {
+    if (!draggingId || draggingId === targetId) return
+    const target = listedTodos.find((todo) => todo.id === targetId)
+    const movingDown = listedTodos.findIndex((todo) => todo.id === draggingId) < listedTodos.indexOf(target as TodoItem)
+    moveTodo(draggingId, targetId, movingDown ? "after" : "before", target?.group?.trim() || null)
+    setDraggingId(null)
+  }
+
+  // 键盘排序：在拖动手柄上按上/下方向键，越过同一分组内屏幕上相邻的习惯
+  const handleReorderKeyDown = (e: React.KeyboardEvent, todo: TodoItem) => {
+    if (e.key !== "ArrowUp" && e.key !== "ArrowDown") return
+    e.preventDefault()
+    const groupName = todo.group?.trim() || null
+    const sectionTodos = listedTodos.filter((t) => (t.group?.trim() || null) === groupName)
+    const index = sectionTodos.findIndex((t) => t.id === todo.id)
+    const neighbor = sectionTodos[e.key === "ArrowUp" ? index - 1 : index + 1]
+    if (!neighbor) return
+    moveTodo(todo.id, neighbor.id, e.key === "ArrowUp" ? "before" : "after")
+  }
+
+  // 折叠/展开分组（仅保存在本设备）
+  const toggleGroupCollapsed = (group: string, open: boolean) => {
+    const updatedGroups = open 
+      ? collapsedGroups.filter((name) => name !== group) 
+      : [...collapsedGroups, group]
+    setCollapsedGroups(updatedGroups)
+    saveCollapsedGroups(updatedGroups)
+  }
+
+  // 修改完成目标
+  const updateGoal = (id: string, goal: HabitGoal) => {
+    // 不再是计时型时结束计时，否则计时器会一直留在本地存储中
+    if (goal.kind !== "duration") {
+      discardTimer(id)
+    }
+    const updatedTodos = todos.map((todo) => {
+      if (todo.id !== id) return todo
+      const updated = { ...todo, kind: goal.kind, target: goal.target, unit: goal.unit, updatedAt: new Date().toISOString() }
+      return isProgressHabit(updated) ? withProgressCompletion(updated, todo) : { ...updated, progress: undefined }
+    })
+    commitTodos(updatedTodos, "修改目标")
+  }
+
+  // 根据计数/计时进度更新完成状态
+  const withProgressCompletion = (todo: TodoItem, previous: TodoItem): TodoItem => {
+    const completed = isTargetReached(todo.progress, getTargetValue(todo), toDateKey())
+    return {
+      ...todo,
+      completed,
+      completedAt: completed ? previous.completedAt || new Date().toISOString() : undefined,
+    }
+  }
+
+  // 计数/计时型习惯增减（计时型单位为秒），提供操作名称时可撤销
+  const adjustCount = (id: string, delta: number, label?: string) => {
+    const todo = todos.find(t => t.id === id)
+    if (!todo) return
+
+    const updated = withProgressCompletion(
+      { ...todo, progress: adjustProgress(todo.progress, toDateKey(), delta), updatedAt: new Date().toISOString() },
+      todo
+    )
+    if (updated.completed && !todo.completed) {
+      setCelebratingId(id)
+      setTimeout(() => setCelebratingId(null), 600)
+    }
+
+    const updatedTodos = todos.map((t) => (t.id === id ? updated : t))
+    if (label) {
+      commitTodos(updatedTodos, label)
+    } else {
       setTodos(updatedTodos)
       saveTodos(updatedTodos)
-      setNewTodo("")
     }
   }
 
+  // 结束当前一段计时并计入进度，next 为之后的计时器状态（null 表示结束计时）
+  const commitTimer = (id: string, next: HabitTimerState | null) => {
+    // 以本地存储为准，避免多个标签页重复计入同一段时间
+    const storedTimers = loadTimers()
+    const seconds = getRunningSeconds(storedTimers[id])
+    const updatedTimers = { ...storedTimers }
+    if (next) {
+      updatedTimers[id] = next
+    } else {
+      delete updatedTimers[id]
+    }
+    setTimers(updatedTimers)
+    saveTimers(updatedTimers)
+
+    if (seconds > 0) {
+      adjustCount(id, seconds)
+    }
+  }
+
+  // 开始/继续计时
+  const startTimer = (id: string) => {
+    const updatedTimers: HabitTimers = { 
+      ...loadTimers(), 
+      [id]: { status: "running", startedAt: new Date().toISOString() } 
+    }
+    setTimers(updatedTimers)
+    saveTimers(updatedTimers)
+  }
+
+  // 计时达到目标时自动结束并完成
+  useEffect(() => {
+    for (const todo of todos) {
+      const timer = timers[todo.id]
+      if (todo.kind !== "duration" || timer?.status !== "running") continue
+
+      const elapsed = getProgressValue(todo.progress, toDateKey()) + getRunningSeconds(timer, now)
+      if (elapsed >= getTargetValue(todo)) {
+        commitTimer(todo.id, null)
+        break
+      }
+    }
+  }, [now])
+
+  // 修改打卡计划
+  const updateSchedule = (id: string, schedule: HabitSchedule) => {
+    const updatedTodos = todos.map((todo) => 
+      todo.id === id ? { ...todo, schedule, updatedAt: new Date().toISOString() } : todo
+    )
+    commitTodos(updatedTodos, "修改计划")
+  }
+
   // 切换任务完成状态
   const toggleTodo = (id: string) => {
     const todo = todos.find(t => t.id === id)
+    if (todo && isProgressHabit(todo)) {
+      // 计数/计时型：勾选直接补足目标，取消勾选清零
+      const value = getProgressValue(todo.progress, toDateKey())
+      adjustCount(id, todo.completed ? -value : getTargetValue(todo) - value, todo.completed ? "取消完成" : "完成功课")
+      return
+    }
+
     if (todo && !todo.completed) {
       // 如果是从未完成变为完成，触发庆祝动画
       setCelebratingId(id)
       setTimeout(() => setCelebratingId(null), 600)
     }
     
-    const updatedTodos = todos.map((todo) => (todo.id === id ? { ...todo, completed: !todo.completed } : todo))
-    setTodos(updatedTodos)
-    saveTodos(updatedTodos)
+    const updatedTodos = todos.map((todo) => 
+      todo.id === id 
+        ? { 
+            ...todo, 
+            completed: !todo.completed, 
+            completedAt: todo.completed ? undefined : new Date().toISOString(), 
+            subtasks: hasChecklist(todo) ? setAllSubtasks(todo.subtasks, !todo.completed) : todo.subtasks,  // 勾选功课时步骤一并完成
+            updatedAt: new Date().toISOString() 
+          } 
+        : todo
+    )
+    commitTodos(updatedTodos, todo?.completed ? "取消完成" : "完成功课")
+  }
+
+  // 勾选/取消子步骤，步骤全部完成时功课自动完成
+  const toggleSubtask = (id: string, subtaskId: string) => {
+    const todo = todos.find(t => t.id === id)
+    const subtask = todo?.subtasks?.find(item => item.id === subtaskId)
+    if (!todo || !subtask) return
+
+    const updated = withChecklistCompletion({
+      ...todo,
+      subtasks: todo.subtasks!.map(item => item.id === subtaskId ? { ...item, completed: !item.completed } : item),
+      updatedAt: new Date().toISOString()
+    })
+    if (updated.completed && !todo.completed) {
+      setCelebratingId(id)
+      setTimeout(() => setCelebratingId(null), 600)
+    }
+    commitTodos(todos.map((t) => t.id === id ? updated : t), subtask.completed ? "取消步骤" : "完成步骤")
+  }
+
+  // 修改子步骤清单（保留已有步骤的完成状态）
+  const updateSubtasks = (id: string, subtasks: HabitSubtask[] | undefined) => {
+    const updatedTodos = todos.map((todo) => 
+      todo.id === id 
+        ? withChecklistCompletion({ ...todo, subtasks, updatedAt: new Date().toISOString() }) 
+        : todo
+    )
+    commitTodos(updatedTodos, "修改步骤")
   }
 
   // 隐藏任务（而非删除，第二天会恢复）
-  const hideTodo = (id: string) => {
+  const hideTodo = (id: string, reason?: string) => {
     const updatedTodos = todos.map((todo) => 
-      todo.id === id ? { ...todo, hidden: true } : todo
+      todo.id === id ? { ...todo, hidden: true, skipReason: reason, updatedAt: new Date().toISOString() } : todo
     )
-    setTodos(updatedTodos)
-    saveTodos(updatedTodos)
+    commitTodos(updatedTodos, "今日跳过")
+  }
+
+  // 归档功课：暂停打卡并移出今日列表与统计，保留历史记录
+  const archiveTodo = (id: string) => {
+    const todo = todos.find(t => t.id === id)
+    if (!todo) return
+
+    // 停止计时，并将未结束的一段计时计入今日进度
+    const seconds = discardTimer(id)
+    const current = seconds > 0
+      ? withProgressCompletion({ ...todo, progress: adjustProgress(todo.progress, todayKey, seconds) }, todo)
+      : todo
+
+    // 归档前先记录今日的打卡情况，归档后不再写入
+    archiveDay(todayKey, filterDueHabits([current], todayKey, loadHistory()))
+
+    const now = new Date().toISOString()
+    const updatedTodos = todos.map((t) => 
+      t.id === id ? { ...current, archivedAt: now, updatedAt: now } : t
+    )
+    commitTodos(updatedTodos, "归档功课")
   }
 
-  // 永久删除任务
+  // 移除计时器，返回尚未计入进度的秒数
+  const discardTimer = (id: string): number => {
+    const storedTimers = loadTimers()
+    if (!storedTimers[id]) return 0
+
+    const seconds = getRunningSeconds(storedTimers[id])
+    const updatedTimers = { ...storedTimers }
+    delete updatedTimers[id]
+    setTimers(updatedTimers)
+    saveTimers(updatedTimers)
+    return seconds
+  }
+
+  // 从归档中恢复功课
+  const restoreTodo = (id: string) => {
+    const updatedTodos = todos.map((todo) => 
+      todo.id === id ? { ...todo, archivedAt: undefined, updatedAt: new Date().toISOString() } : todo
+    )
+    commitTodos(updatedTodos, "恢复功课")
+  }
+
+  // 删除任务：移入回收站，保留期内可连同历史记录恢复
   const deleteTodo = (id: string) => {
+    discardTimer(id)
+    const now = new Date().toISOString()
+    const updatedTodos = todos.map((todo) => 
+      todo.id === id ? { ...todo, deletedAt: now, updatedAt: now } : todo
+    )
+    commitTodos(updatedTodos, "删除功课")
+  }
+
+  // 从回收站恢复任务
+  const restoreDeletedTodo = (id: string) => {
+    const updatedTodos = todos.map((todo) => 
+      todo.id === id ? { ...todo, deletedAt: undefined, updatedAt: new Date().toISOString() } : todo
+    )
+    commitTodos(updatedTodos, "恢复功课")
+
+    // 清除可能残留的删除记录，否则同步时会被当作已删除丢弃
+    syncManager.unmarkHabitAsDeleted(id)
+  }
+
+  // 永久删除任务（仅限回收站中的任务）
+  const purgeTodo = (id: string) => {
     const updatedTodos = todos.filter((todo) => todo.id !== id)
     setTodos(updatedTodos)
     saveTodos(updatedTodos)
@@ -141,16 +819,96 @@ export default function DailyTodoApp() {
     }
   }
 
+  // 修改提醒时间
+  const updateReminder = (id: string, reminderTime: string | undefined) => {
+    const updatedTodos = todos.map((todo) => 
+      todo.id === id ? { ...todo, reminderTime, updatedAt: new Date().toISOString() } : todo
+    )
+    commitTodos(updatedTodos, "修改提醒")
+  }
+
+  // 修改设置并记录修改时间，同步时以较新的一端为准
+  const updateSettings = (changes: Partial<AppSettings>) => {
+    const updatedSettings = { ...settings, ...changes, updatedAt: new Date().toISOString() }
+    setSettings(updatedSettings)
+    saveSettings(updatedSettings)
+    requestSync()
+  }
+
+  // 修改提醒设置（随设置一起同步到其他设备）
+  const updateReminderSettings = (reminders: ReminderSettingsValue) => {
+    updateSettings({ reminders })
+  }
+
+  // 修改一天的起点与常驻时区（随设置一起同步到其他设备）
+  const updateDayBoundary = ({ dayStartHour, timeZone }: { dayStartHour: number; timeZone?: string }) => {
+    updateSettings({ dayStartHour, timeZone })
+  }
+
+  // 发出到时间的提醒
+  const checkReminders = () => {
+    let states = loadReminderStates()
+    const dueReminders = getDueReminders(dueTodos, reminderSettings, states)
+    if (dueReminders.length === 0) return
+
+    for (const todo of dueReminders) {
+      showReminderNotification(todo, reminderSettings.snoozeMinutes)
+      states = markReminderFired(states, todo.id)
+    }
+    saveReminderStates(states)
+  }
+
+  // 处理通知中的「完成」「稍后提醒」
+  const handleReminderAction = (action: string, habitId: string) => {
+    const todo = todos.find((t) => t.id === habitId)
+    if (!todo) return
+
+    if (action === "done") {
+      if (!todo.completed) toggleTodo(habitId)
+    } else if (action === "snooze") {
+      saveReminderStates(snoozeReminder(loadReminderStates(), habitId, reminderSettings.snoozeMinutes))
+    }
+  }
+
+  // 修改回收站保留天数
+  const updateRetentionDays = (days: number) => {
+    updateSettings({ trashRetentionDays: days })
+  }
+
+  // 修改跳过的日子在统计中的计算方式
+  const updateSkipPolicy = (policy: SkipPolicy) => {
+    updateSettings({ skipPolicy: policy })
+  }
+
+  // 将当前筛选条件保存为视图（随设置同步）
+  const saveView = (name: string) => {
+    const view = { id: Date.now().toString(), name, filter }
+    updateSettings({ savedViews: [...(settings.savedViews || []), view] })
+  }
+
+  // 删除保存的视图
+  const deleteView = (id: string) => {
+    updateSettings({ savedViews: (settings.savedViews || []).filter((view) => view.id !== id) })
+  }
+
   // 手动重置所有任务
   const resetAllTasks = () => {
+    // 如果页面跨天未刷新，先归档上一天的完成情况
+    if (lastResetDate && lastResetDate < toDateKey()) {
+      archiveDay(lastResetDate, filterDueHabits(todos, lastResetDate, loadHistory()))
+    }
     const resetTodos = todos.map((todo) => ({ 
       ...todo, 
       completed: false,  // 重置完成状态
-      hidden: false      // 恢复隐藏的任务
+      hidden: false,     // 恢复隐藏的任务
+      skipReason: undefined,
+      completedAt: undefined,
+      progress: undefined,
+      subtasks: setAllSubtasks(todo.subtasks, false),
+      updatedAt: new Date().toISOString()
     }))
-    setTodos(resetTodos)
-    saveTodos(resetTodos)
-    const today = new Date().toDateString()
+    commitTodos(resetTodos, "重置功课")
+    const today = toDateKey()
     setLastResetDate(today)
     localStorage.setItem("lastResetDate", today)
   }
@@ -162,10 +920,355 @@ export default function DailyTodoApp() {
     }
   }
 
-  // 只统计显示的任务（非隐藏的任务）
-  const visibleTodos = todos.filter((todo) => !todo.hidden)
+  // 只统计今日需要打卡且显示的任务（非隐藏、未归档的任务）
+  const todayKey = toDateKey()
+  const activeTodos = todos.filter((todo) => !todo.archivedAt && !todo.deletedAt)
+  const archivedTodos = sortByOrder(todos.filter((todo) => todo.archivedAt && !todo.deletedAt))
+  const trashedTodos = todos
+    .filter((todo) => todo.deletedAt)
+    .sort((a, b) => (b.deletedAt || "").localeCompare(a.deletedAt || ""))
+  const deletingTodo = todos.find((todo) => todo.id === deletingId)
+  const existingTexts = todos.filter((todo) => !todo.deletedAt).map((todo) => todo.text)
+  const dueTodos = sortByOrder(activeTodos).filter((todo) => isHabitDue(todo, todayKey, history))
+  const notDueCount = activeTodos.length - dueTodos.length
+  // 当前时段的功课排在前面
+  const currentSlot = getCurrentSlot(new Date(now))
+  const visibleTodos = sortBySlot(dueTodos.filter((todo) => !todo.hidden), currentSlot)
   const completedCount = visibleTodos.filter((todo) => todo.completed).length
   const totalCount = visibleTodos.length
+  // 进度圆环计入计数型习惯的部分进度
+  const progressRatio = totalCount > 0 
+    ? visibleTodos.reduce((sum, todo) => sum + getCompletionRatio(todo, todayKey), 0) / totalCount 
+    : 0
+  const skipPolicy: SkipPolicy = settings.skipPolicy || "excused"
+  const streaks = computeAllStreaks(history, activeTodos, todayKey, skipPolicy)
+  const quotas = Object.fromEntries(activeTodos.map((todo) => [todo.id, getQuotaProgress(todo, todayKey, history)]))
+  const reminderSettings = getReminderSettings(settings)
+  reminderActionsRef.current = { check: checkReminders, handle: handleReminderAction }
+  const groupNames = getGroupNames(activeTodos)
+  // 按筛选条件列出的功课（顶部的今日进度不受筛选影响）
+  const dueIds = new Set(dueTodos.map((todo) => todo.id))
+  const listedTodos = (filter.dueOnly 
+    ? visibleTodos 
+    : sortBySlot(sortByOrder(activeTodos).filter((todo) => !todo.hidden), currentSlot)
+  ).filter((todo) => matchesFilter(todo, filter))
+  const allTags = getAllTags(activeTodos)
+  const groupedTodos = groupHabits(listedTodos)
+
+  // 今日无需打卡的功课（关闭「仅今日需打卡」时列出）只读显示，其打卡不会计入历史
+  const isReadOnly = (todo: TodoItem) => !dueIds.has(todo.id)
+
+  // 未完成且此刻不在打卡时间窗内的功课淡化显示
+  const isOutsideWindow = (todo: TodoItem) => 
+    !todo.completed && hasWindow(todo.window) && !isWithinWindow(todo.window, new Date(now))
+
+  // 渲染周期进度，如「2/3 本周」
+  const renderQuotaProgress = (quota: QuotaProgress | null) => quota && (
+    <span 
+      className={`min-w-[4rem] text-center text-sm font-medium ${
+        quota.completed >= quota.times ? "text-green-600 dark:text-green-400" : "text-gray-700 dark:text-gray-300"
+      }`}
+      title={`${quota.label}已完成 ${quota.completed} 次，目标 ${quota.times} 次`}
+    >
+      {quota.completed}/{quota.times} {quota.label}
+    </span>
+  )
+
+  // 渲染单个习惯行
+  const renderTodoItem = (todo: TodoItem, index: number) => (
+    <div
+      key={todo.id}
+      className={`group relative flex items-center gap-4 p-4 rounded-xl border-2 transition-all duration-300 transform hover:scale-[1.02] ${
+        todo.completed
+          ? "bg-gradient-to-r from-green-50 to-emerald-50 dark:from-green-900/20 dark:to-emerald-900/20 border-green-200 dark:border-green-700/50"
+          : "bg-white/80 dark:bg-gray-800/80 border-gray-200/50 dark:border-gray-600/50 hover:border-indigo-300 dark:hover:border-indigo-600 hover:shadow-lg"
+      } ${celebratingId === todo.id ? 'animate-celebrate' : ''} ${draggingId === todo.id ? 'opacity-50' : isOutsideWindow(todo) || isReadOnly(todo) ? 'opacity-60' : ''}`}
+      style={{
+        animationDelay: `${index * 0.1}s`,
+        animation: celebratingId === todo.id ? 'celebrate 0.6s ease-out' : 'fadeInUp 0.5s ease-out forwards'
+      }}
+      draggable={editingId !== todo.id}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = "move"
+        setDraggingId(todo.id)
+      }}
+      onDragOver={(e) => {
+        if (draggingId) e.preventDefault()
+      }}
+      onDrop={(e) => {
+        e.preventDefault()
+        handleDrop(todo.id)
+      }}
+      onDragEnd={() => setDraggingId(null)}
+    >
+      {/* 拖动手柄（可用上/下方向键排序） */}
+      <button
+        type="button"
+        onKeyDown={(e) => handleReorderKeyDown(e, todo)}
+        className="-ml-2 cursor-grab active:cursor-grabbing text-gray-300 hover:text-gray-500 dark:text-gray-600 dark:hover:text-gray-400 focus:outline-none focus-visible:text-indigo-500"
+        title="拖动排序（或使用上/下方向键）"
+        aria-label="调整顺序"
+      >
+        <GripVertical className="h-5 w-5" />
+      </button>
+      
+      {/* 习惯序号 */}
+      <div className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold transition-all duration-200 ${
+        todo.completed 
+          ? "bg-green-500 text-white" 
+          : "bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 group-hover:bg-indigo-100 dark:group-hover:bg-indigo-900/50 group-hover:text-indigo-600 dark:group-hover:text-indigo-400"
+      }`}>
+        {index + 1}
+      </div>
+      
+      {/* 复选框 */}
+      <div className="relative">
+        <Checkbox
+          checked={todo.completed}
+          disabled={isReadOnly(todo)}
+          onCheckedChange={() => toggleTodo(todo.id)}
+          className="w-6 h-6 data-[state=checked]:bg-green-500 data-[state=checked]:border-green-500 border-2 transition-all duration-200"
+        />
+        {todo.completed && (
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <div className="w-3 h-3 bg-white rounded-full animate-ping"></div>
+          </div>
+        )}
+      </div>
+      
+      {/* 习惯文本与打卡计划 */}
+      <div className="flex-1 min-w-0">
+        {editingId === todo.id ? (
+          <Input
+            autoFocus
+            value={editingText}
+            onChange={(e) => setEditingText(e.target.value)}
+            onBlur={commitEditing}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") commitEditing()
+              if (e.key === "Escape") setEditingId(null)
+            }}
+            className="h-9 text-lg bg-white dark:bg-gray-900"
+          />
+        ) : (
+          <span
+            onDoubleClick={() => startEditing(todo)}
+            className={`block text-lg transition-all duration-300 ${
+              todo.completed 
+                ? "line-through text-green-700 dark:text-green-400 opacity-75" 
+                : "text-gray-800 dark:text-gray-200 group-hover:text-indigo-700 dark:group-hover:text-indigo-300"
+            }`}
+            title="双击编辑"
+          >
+            {todo.text}
+          </span>
+        )}
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+          <HabitScheduleEditor 
+            value={todo.schedule} 
+            onChange={(schedule) => updateSchedule(todo.id, schedule)} 
+          />
+          <HabitGoalEditor 
+            value={todo} 
+            onChange={(goal) => updateGoal(todo.id, goal)} 
+          />
+          <HabitGroupEditor 
+            value={todo.group} 
+            groupNames={groupNames} 
+            onChange={(group) => updateGroup(todo.id, group)} 
+          />
+          <HabitReminderEditor 
+            value={todo.reminderTime} 
+            remindersEnabled={reminderSettings.enabled} 
+            onChange={(reminderTime) => updateReminder(todo.id, reminderTime)} 
+          />
+          <HabitSubtaskEditor 
+            value={todo.subtasks} 
+            disabled={isProgressHabit(todo)} 
+            onChange={(subtasks) => updateSubtasks(todo.id, subtasks)} 
+          />
+          <HabitSlotEditor 
+            value={todo} 
+            onChange={(timing) => updateTiming(todo.id, timing)} 
+          />
+          <HabitTagEditor 
+            value={todo.tags} 
+            allTags={allTags} 
+            onChange={(tags) => updateTags(todo.id, tags)} 
+          />
+          {isReadOnly(todo) && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">今日无需打卡</span>
+          )}
+          {isOutsideWindow(todo) && (
+            <span className="text-xs text-amber-600 dark:text-amber-400">
+              不在打卡时间（{describeWindow(todo.window)}）
+            </span>
+          )}
+          {todo.completed && isCheckInOnTime(todo, todo.completedAt) === false && (
+            <span className="text-xs text-amber-600 dark:text-amber-400">不准时</span>
+          )}
+        </div>
+        {hasChecklist(todo) && (
+          <ul className="mt-2 space-y-1">
+            {todo.subtasks!.map((subtask) => (
+              <li key={subtask.id} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={subtask.completed}
+                  disabled={isReadOnly(todo)}
+                  onCheckedChange={() => toggleSubtask(todo.id, subtask.id)}
+                  className="w-4 h-4 data-[state=checked]:bg-green-500 data-[state=checked]:border-green-500"
+                />
+                <span className={subtask.completed ? "line-through text-gray-400 dark:text-gray-500" : "text-gray-600 dark:text-gray-300"}>
+                  {subtask.text}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      
+      {/* 每周/每月N次的周期进度 */}
+      {renderQuotaProgress(quotas[todo.id])}
+
+      {/* 子步骤进度 */}
+      {hasChecklist(todo) && (
+        <span className="min-w-[3rem] text-center text-sm font-medium text-gray-700 dark:text-gray-300">
+          {countCompletedSubtasks(todo.subtasks)}/{todo.subtasks!.length}
+        </span>
+      )}
+      
+      {/* 计数控制 */}
+      {todo.kind === 'count' && !isReadOnly(todo) && (
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => adjustCount(todo.id, -1)}
+            disabled={getProgressValue(todo.progress, todayKey) === 0}
+            className="rounded-full w-8 h-8 p-0 text-gray-500 hover:text-indigo-600"
+            title="减少"
+          >
+            <Minus className="h-4 w-4" />
+          </Button>
+          <span className="min-w-[4rem] text-center text-sm font-medium text-gray-700 dark:text-gray-300">
+            {getProgressValue(todo.progress, todayKey)}/{todo.target || 1} {todo.unit}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => adjustCount(todo.id, 1)}
+            className="rounded-full w-8 h-8 p-0 text-gray-500 hover:text-indigo-600"
+            title="增加"
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+      
+      {/* 计时控制 */}
+      {todo.kind === 'duration' && !isReadOnly(todo) && (
+        <HabitTimerControls
+          elapsedSeconds={getProgressValue(todo.progress, todayKey) + getRunningSeconds(timers[todo.id], now)}
+          targetMinutes={todo.target || 1}
+          status={timers[todo.id]?.status || 'idle'}
+          onStart={() => startTimer(todo.id)}
+          onPause={() => commitTimer(todo.id, { status: 'paused' })}
+          onStop={() => commitTimer(todo.id, null)}
+        />
+      )}
+      
+      {/* 今日笔记 */}
+      {!isReadOnly(todo) && (
+        <HabitNotePopover note={history[todayKey]?.[todo.id]?.note} onSave={(note) => saveNote(todo.id, note)} />
+      )}
+      
+      {/* 连续打卡 */}
+      <HabitStreakPopover habitText={todo.text} stats={streaks[todo.id]} notes={getHabitNotes(history, todo.id)} skipPolicy={skipPolicy} />
+      
+      {/* 完成状态指示 */}
+      {todo.completed && (
+        <div className="text-green-600 dark:text-green-400 text-sm font-medium bg-green-100 dark:bg-green-900/30 px-3 py-1 rounded-full">
+          已完成
+        </div>
+      )}
+      
+      {/* 操作按钮组 */}
+      <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-all duration-200">
+        {/* 编辑按钮 */}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => startEditing(todo)}
+          className="text-gray-400 hover:text-indigo-500 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 rounded-full w-9 h-9 p-0"
+          title="编辑名称"
+        >
+          <Pencil className="h-4 w-4" />
+        </Button>
+        
+        {/* 归档按钮 */}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => archiveTodo(todo.id)}
+          className="text-gray-400 hover:text-purple-500 hover:bg-purple-50 dark:hover:bg-purple-900/20 rounded-full w-9 h-9 p-0"
+          title="归档（暂停打卡，保留记录）"
+        >
+          <Archive className="h-4 w-4" />
+        </Button>
+        
+        {/* 跳过按钮 */}
+        {!isReadOnly(todo) && <HabitSkipPopover onSkip={(reason) => hideTodo(todo.id, reason)} />}
+      
+        {/* 删除按钮 */}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setDeletingId(todo.id)}
+          className="text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-full w-9 h-9 p-0"
+          title="删除（移入回收站）"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  )
+
+  // 渲染分组区块，未分组的习惯直接显示在最前
+  const renderGroupSection = (section: HabitGroupSection<TodoItem>) => {
+    if (section.name === null) {
+      return section.habits.map((todo) => renderTodoItem(todo, listedTodos.indexOf(todo)))
+    }
+
+    const groupName = section.name
+    const isOpen = !collapsedGroups.includes(groupName)
+    const groupCompleted = section.habits.filter((todo) => todo.completed).length
+    const groupRatio = section.habits.reduce((sum, todo) => sum + getCompletionRatio(todo, todayKey), 0) / section.habits.length
+
+    return (
+      <Collapsible 
+        key={`group-${groupName}`} 
+        open={isOpen} 
+        onOpenChange={(open) => toggleGroupCollapsed(groupName, open)}
+      >
+        <CollapsibleTrigger asChild>
+          <button 
+            type="button"
+            className="w-full flex items-center gap-3 px-2 py-2 rounded-lg text-left hover:bg-indigo-50/50 dark:hover:bg-indigo-900/20 transition-colors"
+          >
+            <ChevronDown className={`h-4 w-4 text-gray-500 transition-transform duration-200 ${isOpen ? "" : "-rotate-90"}`} />
+            <span className="font-semibold text-gray-800 dark:text-gray-200">{groupName}</span>
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              {groupCompleted} / {section.habits.length}
+            </span>
+            <Progress value={groupRatio * 100} className="flex-1 h-1.5 bg-gray-200 dark:bg-gray-700" />
+          </button>
+        </CollapsibleTrigger>
+        <CollapsibleContent className="space-y-4 mt-4">
+          {section.habits.map((todo) => renderTodoItem(todo, listedTodos.indexOf(todo)))}
+        </CollapsibleContent>
+      </Collapsible>
+    )
+  }
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 dark:from-gray-900 dark:via-blue-900 dark:to-purple-900 p-4 relative overflow-hidden">
@@ -206,7 +1309,7 @@ export default function DailyTodoApp() {
                     strokeWidth="4"
                     strokeLinecap="round"
                     strokeDasharray={`${2 * Math.PI * 28}`}
-                    strokeDashoffset={`${2 * Math.PI * 28 * (1 - completedCount / totalCount)}`}
+                    strokeDashoffset={`${2 * Math.PI * 28 * (1 - progressRatio)}`}
                     className="transition-all duration-500 ease-out"
                   />
                   <defs>
@@ -218,7 +1321,7 @@ export default function DailyTodoApp() {
                 </svg>
                 <div className="absolute inset-0 flex items-center justify-center">
                   <span className="text-sm font-bold text-gray-700 dark:text-gray-300">
-                    {totalCount > 0 ? Math.round((completedCount / totalCount) * 100) : 0}%
+                    {Math.round(progressRatio * 100)}%
                   </span>
                 </div>
               </div>
@@ -246,6 +1349,72 @@ export default function DailyTodoApp() {
               )}
             </Button>
 
+            {/* 打卡日历按钮 */}
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setShowHeatmap(!showHeatmap)}
+              className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-white/20 dark:border-gray-700/20 hover:bg-white dark:hover:bg-gray-800 shadow-lg"
+              title="打卡日历"
+            >
+              <CalendarDays className="h-4 w-4" />
+            </Button>
+
+            {/* 补打卡按钮 */}
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setShowPastDays(!showPastDays)}
+              className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-white/20 dark:border-gray-700/20 hover:bg-white dark:hover:bg-gray-800 shadow-lg"
+              title="补打卡"
+            >
+              <History className="h-4 w-4" />
+            </Button>
+
+            {/* 统计按钮 */}
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setShowStats(!showStats)}
+              className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-white/20 dark:border-gray-700/20 hover:bg-white dark:hover:bg-gray-800 shadow-lg"
+              title="统计报表"
+            >
+              <BarChart3 className="h-4 w-4" />
+            </Button>
+
+            {/* 模板库按钮 */}
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setShowTemplates(!showTemplates)}
+              className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-white/20 dark:border-gray-700/20 hover:bg-white dark:hover:bg-gray-800 shadow-lg"
+              title="功课模板库"
+            >
+              <Library className="h-4 w-4" />
+            </Button>
+
+            {/* 归档按钮 */}
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setShowArchive(!showArchive)}
+              className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-white/20 dark:border-gray-700/20 hover:bg-white dark:hover:bg-gray-800 shadow-lg"
+              title="已归档的功课"
+            >
+              <Archive className="h-4 w-4" />
+            </Button>
+
+            {/* 回收站按钮 */}
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setShowTrash(!showTrash)}
+              className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-white/20 dark:border-gray-700/20 hover:bg-white dark:hover:bg-gray-800 shadow-lg"
+              title="回收站"
+            >
+              <Trash className="h-4 w-4" />
+            </Button>
+
             {/* 设置按钮 */}
             <Button
               variant="outline"
@@ -274,6 +1443,36 @@ export default function DailyTodoApp() {
           <div className="mb-8 space-y-6">
             <AuthSetup onAuthSuccess={() => setShowAuthSetup(false)} />
             
+            {/* 日期设置 */}
+            <Card className="bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm border-white/20 dark:border-gray-700/20 shadow-xl">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Clock className="w-5 h-5" />
+                  日期设置
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <DayBoundarySettings 
+                  dayStartHour={settings.dayStartHour || 0} 
+                  timeZone={settings.timeZone} 
+                  onChange={updateDayBoundary} 
+                />
+              </CardContent>
+            </Card>
+
+            {/* 提醒设置 */}
+            <Card className="bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm border-white/20 dark:border-gray-700/20 shadow-xl">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Bell className="w-5 h-5" />
+                  提醒设置
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ReminderSettings value={reminderSettings} onChange={updateReminderSettings} />
+              </CardContent>
+            </Card>
+            
             {/* 详细同步状态 */}
             {authState.isAuthenticated && (
               <Card className="bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm border-white/20 dark:border-gray-700/20 shadow-xl">
@@ -291,6 +1490,141 @@ export default function DailyTodoApp() {
           </div>
         )}
 
+        {/* 打卡日历热力图 */}
+        {showHeatmap && (
+          <Card className="mb-8 bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm border-white/20 dark:border-gray-700/20 shadow-xl">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarDays className="w-5 h-5" />
+                打卡日历
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <HabitHeatmap history={history} habits={activeTodos} skipPolicy={skipPolicy} />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* 补打卡 */}
+        {showPastDays && (
+          <Card className="mb-8 bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm border-white/20 dark:border-gray-700/20 shadow-xl">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <History className="w-5 h-5" />
+                补打卡
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <PastDayEditor history={history} habits={activeTodos} onToggle={savePastCheckIn} />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* 统计报表 */}
+        {showStats && (
+          <Card className="mb-8 bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm border-white/20 dark:border-gray-700/20 shadow-xl">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <BarChart3 className="w-5 h-5" />
+                统计报表
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <HabitStatsDashboard
+                history={history}
+                habits={activeTodos}
+                skipPolicy={skipPolicy}
+                onSkipPolicyChange={updateSkipPolicy}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* 功课模板库 */}
+        {showTemplates && (
+          <Card className="mb-8 bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm border-white/20 dark:border-gray-700/20 shadow-xl">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Library className="w-5 h-5" />
+                功课模板库
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <HabitTemplateLibrary existingTexts={existingTexts} onAdd={addTemplates} />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* 已归档的功课 */}
+        {showArchive && (
+          <Card className="mb-8 bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm border-white/20 dark:border-gray-700/20 shadow-xl">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Archive className="w-5 h-5" />
+                已归档
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <HabitArchiveList 
+                habits={archivedTodos} 
+                history={history} 
+                onRestore={restoreTodo} 
+                onDelete={setDeletingId} 
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* 回收站 */}
+        {showTrash && (
+          <Card className="mb-8 bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm border-white/20 dark:border-gray-700/20 shadow-xl">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Trash className="w-5 h-5" />
+                回收站
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <HabitTrashList 
+                habits={trashedTodos} 
+                retentionDays={getRetentionDays(settings)} 
+                onRetentionChange={updateRetentionDays} 
+                onRestore={restoreDeletedTodo} 
+                onPurge={purgeTodo} 
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* 新手引导 */}
+        <OnboardingWizard
+          open={showOnboarding}
+          existingTexts={existingTexts}
+          onAddTemplates={addTemplates}
+          onFinish={finishOnboarding}
+        />
+
+        {/* 删除确认 */}
+        <AlertDialog open={deletingId !== null} onOpenChange={(open) => !open && setDeletingId(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>删除「{deletingTodo?.text}」？</AlertDialogTitle>
+              <AlertDialogDescription>
+                功课将移入回收站，{getRetentionDays(settings)} 天内可以连同打卡记录一起恢复。
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>取消</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => deletingId && deleteTodo(deletingId)}
+                className="bg-red-500 hover:bg-red-600"
+              >
+                移入回收站
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
         {/* 添加习惯 */}
         <Card className="mb-8 bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm border-white/20 dark:border-gray-700/20 shadow-xl">
           <CardContent className="pt-6">
@@ -313,6 +1647,20 @@ export default function DailyTodoApp() {
                 添加
               </Button>
             </div>
+            <div className="mt-3 flex items-center gap-4 text-xs text-gray-500 dark:text-gray-400">
+              <span className="flex items-center gap-2">
+                打卡计划:
+                <HabitScheduleEditor value={newSchedule} onChange={setNewSchedule} />
+              </span>
+              <span className="flex items-center gap-2">
+                完成目标:
+                <HabitGoalEditor value={newGoal} onChange={setNewGoal} />
+              </span>
+              <span className="flex items-center gap-2">
+                分组:
+                <HabitGroupEditor value={newGroup} groupNames={groupNames} onChange={setNewGroup} />
+              </span>
+            </div>
           </CardContent>
         </Card>
 
@@ -347,7 +1695,7 @@ export default function DailyTodoApp() {
             </CardTitle>
           </CardHeader>
           <CardContent>
-            {visibleTodos.length === 0 ? (
+            {activeTodos.length === 0 ? (
               <div className="text-center py-16">
                 <div className="w-24 h-24 mx-auto mb-6 rounded-full bg-gradient-to-r from-indigo-100 to-purple-100 dark:from-indigo-900/30 dark:to-purple-900/30 flex items-center justify-center">
                   <Plus className="w-12 h-12 text-indigo-500 dark:text-indigo-400" />
@@ -358,89 +1706,42 @@ export default function DailyTodoApp() {
                 <p className="text-gray-500 dark:text-gray-400 max-w-sm mx-auto">
                   制定每日功课，日积月累，终成大道
                 </p>
+                <Button
+                  variant="outline"
+                  onClick={() => setShowTemplates(true)}
+                  className="mt-6 bg-white/80 dark:bg-gray-800/80 border-gray-200/50 dark:border-gray-600/50"
+                >
+                  <Library className="h-4 w-4 mr-2" />
+                  从模板库挑选
+                </Button>
               </div>
             ) : (
               <div className="space-y-4">
-                {visibleTodos.map((todo, index) => (
-                  <div
-                    key={todo.id}
-                    className={`group relative flex items-center gap-4 p-4 rounded-xl border-2 transition-all duration-300 transform hover:scale-[1.02] ${
-                      todo.completed
-                        ? "bg-gradient-to-r from-green-50 to-emerald-50 dark:from-green-900/20 dark:to-emerald-900/20 border-green-200 dark:border-green-700/50"
-                        : "bg-white/80 dark:bg-gray-800/80 border-gray-200/50 dark:border-gray-600/50 hover:border-indigo-300 dark:hover:border-indigo-600 hover:shadow-lg"
-                    } ${celebratingId === todo.id ? 'animate-celebrate' : ''}`}
-                    style={{
-                      animationDelay: `${index * 0.1}s`,
-                      animation: celebratingId === todo.id ? 'celebrate 0.6s ease-out' : 'fadeInUp 0.5s ease-out forwards'
-                    }}
-                  >
-                    {/* 习惯序号 */}
-                    <div className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold transition-all duration-200 ${
-                      todo.completed 
-                        ? "bg-green-500 text-white" 
-                        : "bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 group-hover:bg-indigo-100 dark:group-hover:bg-indigo-900/50 group-hover:text-indigo-600 dark:group-hover:text-indigo-400"
-                    }`}>
-                      {index + 1}
-                    </div>
-                    
-                    {/* 复选框 */}
-                    <div className="relative">
-                      <Checkbox
-                        checked={todo.completed}
-                        onCheckedChange={() => toggleTodo(todo.id)}
-                        className="w-6 h-6 data-[state=checked]:bg-green-500 data-[state=checked]:border-green-500 border-2 transition-all duration-200"
-                      />
-                      {todo.completed && (
-                        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-                          <div className="w-3 h-3 bg-white rounded-full animate-ping"></div>
-                        </div>
-                      )}
-                    </div>
-                    
-                    {/* 习惯文本 */}
-                    <span
-                      className={`flex-1 text-lg transition-all duration-300 ${
-                        todo.completed 
-                          ? "line-through text-green-700 dark:text-green-400 opacity-75" 
-                          : "text-gray-800 dark:text-gray-200 group-hover:text-indigo-700 dark:group-hover:text-indigo-300"
-                      }`}
-                    >
-                      {todo.text}
-                    </span>
-                    
-                    {/* 完成状态指示 */}
-                    {todo.completed && (
-                      <div className="text-green-600 dark:text-green-400 text-sm font-medium bg-green-100 dark:bg-green-900/30 px-3 py-1 rounded-full">
-                        已完成
-                      </div>
-                    )}
-                    
-                    {/* 操作按钮组 */}
-                    <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-all duration-200">
-                      {/* 跳过按钮 */}
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => hideTodo(todo.id)}
-                        className="text-gray-400 hover:text-orange-500 hover:bg-orange-50 dark:hover:bg-orange-900/20 rounded-full w-9 h-9 p-0"
-                        title="今日跳过（明日恢复）"
-                      >
-                        <EyeOff className="h-4 w-4" />
-                      </Button>
-                      
-                      {/* 删除按钮 */}
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => deleteTodo(todo.id)}
-                        className="text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-full w-9 h-9 p-0"
-                        title="永久删除"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  </div>
-                ))}
+                <HabitFilterBar 
+                  filter={filter} 
+                  allTags={allTags} 
+                  savedViews={settings.savedViews || []} 
+                  onChange={setFilter} 
+                  onSaveView={saveView} 
+                  onDeleteView={deleteView} 
+                />
+                {/* 没有列出的功课时仍显示筛选栏，可关闭「仅今日需打卡」查看今日休息的功课 */}
+                {listedTodos.length === 0 ? (
+                  <p className="text-center text-sm text-gray-500 dark:text-gray-400 py-8">
+                    {isFilterActive(filter)
+                      ? "没有符合筛选条件的功课"
+                      : notDueCount > 0
+                        ? `今日无需打卡，${notDueCount} 项功课按计划今日休息`
+                        : "今日的功课都已跳过"}
+                  </p>
+                ) : (
+                  groupedTodos.map((section) => renderGroupSection(section))
+                )}
+                {listedTodos.length > 0 && filter.dueOnly && notDueCount > 0 && (
+                  <p className="text-center text-sm text-gray-500 dark:text-gray-400">
+                    另有 {notDueCount} 项功课按计划今日休息
+                  </p>
+                )}
               </div>
             )}
           </CardContent>
@@ -0,0 +1,108 @@
+"use client"
+
+import React, { useEffect, useState } from 'react'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { toDateKey } from '@/lib/habit-history'
+
+interface DayBoundarySettingsProps {
+  dayStartHour: number
+  timeZone?: string
+  onChange: (value: { dayStartHour: number; timeZone?: string }) => void
+}
+
+// 跟随设备时区的选项值
+const DEVICE_TIME_ZONE = 'device'
+
+// 可选的一天起点（0 点到中午 12 点）
+const DAY_START_HOURS = Array.from({ length: 13 }, (_, hour) => hour)
+
+// 浏览器不支持列出时区时使用的常用时区
+const COMMON_TIME_ZONES = [
+  'Asia/Shanghai',
+  'Asia/Hong_Kong',
+  'Asia/Taipei',
+  'Asia/Tokyo',
+  'Asia/Singapore',
+  'Europe/London',
+  'Europe/Paris',
+  'America/New_York',
+  'America/Los_Angeles',
+  'Australia/Sydney',
+  'UTC'
+]
+
+/**
+ * 获取可选的时区列表
+ */
+function getTimeZones(): string[] {
+  if (typeof Intl.supportedValuesOf === 'function') {
+    return Intl.supportedValuesOf('timeZone')
+  }
+  return COMMON_TIME_ZONES
+}
+
+export function DayBoundarySettings({ dayStartHour, timeZone, onChange }: DayBoundarySettingsProps) {
+  const [deviceTimeZone, setDeviceTimeZone] = useState('')
+  const [timeZones, setTimeZones] = useState<string[]>(COMMON_TIME_ZONES)
+
+  useEffect(() => {
+    setDeviceTimeZone(Intl.DateTimeFormat().resolvedOptions().timeZone)
+    setTimeZones(getTimeZones())
+  }, [])
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label>一天的起点</Label>
+          <p className="text-xs text-muted-foreground">
+            在此之前完成的功课算作前一天，适合晚睡的晚课
+          </p>
+        </div>
+        <Select
+          value={String(dayStartHour)}
+          onValueChange={(hour) => onChange({ dayStartHour: Number(hour), timeZone })}
+        >
+          <SelectTrigger className="w-28 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DAY_START_HOURS.map(hour => (
+              <SelectItem key={hour} value={String(hour)}>
+                {hour.toString().padStart(2, '0')}:00
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label>常驻时区</Label>
+          <p className="text-xs text-muted-foreground">
+            出差旅行时仍按常驻时区划分日期
+          </p>
+        </div>
+        <Select
+          value={timeZone || DEVICE_TIME_ZONE}
+          onValueChange={(zone) => onChange({ dayStartHour, timeZone: zone === DEVICE_TIME_ZONE ? undefined : zone })}
+        >
+          <SelectTrigger className="w-48 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEVICE_TIME_ZONE}>跟随设备{deviceTimeZone && `（${deviceTimeZone}）`}</SelectItem>
+            {timeZones.map(zone => (
+              <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        当前日期：{toDateKey()}
+      </p>
+    </div>
+  )
+}
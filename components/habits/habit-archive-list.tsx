@@ -0,0 +1,72 @@
+"use client"
+
+import React from 'react'
+import { Button } from '@/components/ui/button'
+import { ArchiveRestore, Trash2 } from 'lucide-react'
+import { HabitHistory } from '@/lib/types'
+import { computeHabitStreak } from '@/lib/habit-stats'
+
+interface ArchivedHabit {
+  id: string
+  text: string
+  group?: string
+  archivedAt?: string
+}
+
+interface HabitArchiveListProps {
+  habits: ArchivedHabit[]
+  history: HabitHistory
+  onRestore: (id: string) => void
+  onDelete: (id: string) => void
+}
+
+export function HabitArchiveList({ habits, history, onRestore, onDelete }: HabitArchiveListProps) {
+  if (habits.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-4">
+        暂无归档的功课
+      </p>
+    )
+  }
+
+  return (
+    <ul className="space-y-3">
+      {habits.map(habit => {
+        const stats = computeHabitStreak(history, habit.id)
+        return (
+          <li
+            key={habit.id}
+            className="flex items-center gap-3 p-3 rounded-xl border border-gray-200/50 dark:border-gray-600/50 bg-white/50 dark:bg-gray-900/50"
+          >
+            <div className="flex-1 min-w-0">
+              <div className="font-medium text-gray-800 dark:text-gray-200 truncate">{habit.text}</div>
+              <div className="text-xs text-muted-foreground">
+                {habit.group && `${habit.group} · `}
+                {habit.archivedAt && `归档于 ${new Date(habit.archivedAt).toLocaleDateString('zh-CN')} · `}
+                累计完成 {stats.totalCompletions} 次
+              </div>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onRestore(habit.id)}
+              className="text-gray-400 hover:text-indigo-500 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 rounded-full w-9 h-9 p-0"
+              title="恢复到今日功课"
+            >
+              <ArchiveRestore className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onDelete(habit.id)}
+              className="text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-full w-9 h-9 p-0"
+              title="永久删除"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
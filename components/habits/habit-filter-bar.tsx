@@ -0,0 +1,154 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { Bookmark, BookmarkPlus, X } from 'lucide-react'
+import { HabitFilter, SavedView } from '@/lib/types'
+import { DEFAULT_FILTER, findSavedView, isFilterActive } from '@/lib/habit-filters'
+
+interface HabitFilterBarProps {
+  filter: HabitFilter
+  allTags: string[]
+  savedViews: SavedView[]
+  onChange: (filter: HabitFilter) => void
+  onSaveView: (name: string) => void
+  onDeleteView: (id: string) => void
+}
+
+export function HabitFilterBar({ filter, allTags, savedViews, onChange, onSaveView, onDeleteView }: HabitFilterBarProps) {
+  const [saveOpen, setSaveOpen] = useState(false)
+  const [viewName, setViewName] = useState('')
+
+  const activeView = findSavedView(savedViews, filter)
+
+  const toggleTag = (tag: string) => {
+    const tags = filter.tags.includes(tag) ? filter.tags.filter(item => item !== tag) : [...filter.tags, tag]
+    onChange({ ...filter, tags })
+  }
+
+  const handleSaveView = () => {
+    const name = viewName.trim()
+    if (!name) return
+    onSaveView(name)
+    setSaveOpen(false)
+  }
+
+  return (
+    <div className="space-y-3">
+      {/* 保存的视图 */}
+      {savedViews.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Bookmark className="h-4 w-4 text-gray-400" />
+          {savedViews.map(view => (
+            <span
+              key={view.id}
+              className={`group/view flex items-center gap-1 pl-3 pr-2 py-1 rounded-full text-xs font-medium transition-all duration-200 ${
+                activeView?.id === view.id
+                  ? 'bg-gradient-to-r from-indigo-500 to-purple-600 text-white'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-indigo-100 dark:hover:bg-indigo-900/50'
+              }`}
+            >
+              <button type="button" onClick={() => onChange(view.filter)}>
+                {view.name}
+              </button>
+              <button
+                type="button"
+                onClick={() => onDeleteView(view.id)}
+                className="opacity-0 group-hover/view:opacity-100 hover:text-red-500 transition-opacity"
+                title="删除视图"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        {/* 标签 */}
+        {allTags.map(tag => (
+          <button
+            key={tag}
+            type="button"
+            onClick={() => toggleTag(tag)}
+            className={`px-3 py-1 rounded-full text-xs font-medium transition-all duration-200 ${
+              filter.tags.includes(tag)
+                ? 'bg-indigo-500 text-white'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-indigo-100 dark:hover:bg-indigo-900/50'
+            }`}
+          >
+            #{tag}
+          </button>
+        ))}
+
+        {/* 完成状态 */}
+        <Select value={filter.status} onValueChange={(status) => onChange({ ...filter, status: status as HabitFilter['status'] })}>
+          <SelectTrigger className="w-28 h-8 bg-white/50 dark:bg-gray-900/50">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">全部状态</SelectItem>
+            <SelectItem value="incomplete">未完成</SelectItem>
+            <SelectItem value="completed">已完成</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {/* 今日计划 */}
+        <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300">
+          <Switch checked={filter.dueOnly} onCheckedChange={(dueOnly) => onChange({ ...filter, dueOnly })} />
+          仅今日需打卡
+        </label>
+
+        <div className="flex items-center gap-1 ml-auto">
+          {isFilterActive(filter) && (
+            <Button variant="ghost" size="sm" onClick={() => onChange(DEFAULT_FILTER)} className="h-8 text-xs">
+              清除筛选
+            </Button>
+          )}
+          {isFilterActive(filter) && !activeView && (
+            <Popover
+              open={saveOpen}
+              onOpenChange={(open) => {
+                if (open) setViewName('')
+                setSaveOpen(open)
+              }}
+            >
+              <PopoverTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-8 text-xs" title="保存为视图">
+                  <BookmarkPlus className="h-4 w-4 mr-1" />
+                  保存视图
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-64 bg-white/95 dark:bg-gray-800/95 backdrop-blur-sm">
+                <div className="space-y-3">
+                  <Input
+                    autoFocus
+                    placeholder="视图名称，如「晨间健康」"
+                    value={viewName}
+                    onChange={(e) => setViewName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleSaveView()
+                    }}
+                    className="h-8"
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => setSaveOpen(false)}>
+                      取消
+                    </Button>
+                    <Button size="sm" onClick={handleSaveView} disabled={!viewName.trim()}>
+                      保存
+                    </Button>
+                  </div>
+                </div>
+              </PopoverContent>
+            </Popover>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
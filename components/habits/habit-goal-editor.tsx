@@ -0,0 +1,145 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Target } from 'lucide-react'
+import { HabitKind } from '@/lib/types'
+
+export interface HabitGoal {
+  kind?: HabitKind
+  target?: number
+  unit?: string
+}
+
+interface HabitGoalEditorProps {
+  value: HabitGoal
+  onChange: (goal: HabitGoal) => void
+  className?: string
+}
+
+/**
+ * 生成目标的中文描述
+ */
+export function describeGoal(goal: HabitGoal): string {
+  if (goal.kind === 'count') {
+    return `目标 ${goal.target || 1} ${goal.unit || '次'}`
+  }
+  if (goal.kind === 'duration') {
+    return `计时 ${goal.target || 1} 分钟`
+  }
+  return '打勾完成'
+}
+
+export function HabitGoalEditor({ value, onChange, className = '' }: HabitGoalEditorProps) {
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState<HabitGoal>(value)
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setDraft(value)
+    }
+    setOpen(nextOpen)
+  }
+
+  const handleKindChange = (kind: HabitKind) => {
+    if (kind === 'count') {
+      setDraft({ kind, target: draft.target || 8, unit: draft.unit || '杯' })
+    } else if (kind === 'duration') {
+      setDraft({ kind, target: draft.target || 20 })
+    } else {
+      setDraft({ kind: 'check' })
+    }
+  }
+
+  const handleSave = () => {
+    switch (draft.kind) {
+      case 'count':
+        onChange({ kind: 'count', target: Math.max(1, draft.target || 1), unit: draft.unit?.trim() || '次' })
+        break
+      case 'duration':
+        onChange({ kind: 'duration', target: Math.max(1, draft.target || 1) })
+        break
+      default:
+        onChange({ kind: 'check' })
+    }
+    setOpen(false)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={`flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors ${className}`}
+          title="设置完成目标"
+        >
+          <Target className="h-3.5 w-3.5" />
+          {describeGoal(value)}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 bg-white/95 dark:bg-gray-800/95 backdrop-blur-sm">
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>完成方式</Label>
+            <Select value={draft.kind || 'check'} onValueChange={(kind) => handleKindChange(kind as HabitKind)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="check">打勾完成</SelectItem>
+                <SelectItem value="count">计数达标</SelectItem>
+                <SelectItem value="duration">计时达标</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {draft.kind === 'count' && (
+            <div className="flex items-center gap-2 text-sm">
+              <span>每日</span>
+              <Input
+                type="number"
+                min={1}
+                value={draft.target || ''}
+                onChange={(e) => setDraft({ ...draft, target: Number(e.target.value) || undefined })}
+                className="w-20 h-8"
+              />
+              <Input
+                placeholder="单位"
+                value={draft.unit || ''}
+                onChange={(e) => setDraft({ ...draft, unit: e.target.value })}
+                className="w-20 h-8"
+              />
+            </div>
+          )}
+
+          {draft.kind === 'duration' && (
+            <div className="flex items-center gap-2 text-sm">
+              <span>每日</span>
+              <Input
+                type="number"
+                min={1}
+                value={draft.target || ''}
+                onChange={(e) => setDraft({ ...draft, target: Number(e.target.value) || undefined })}
+                className="w-20 h-8"
+              />
+              <span>分钟</span>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setOpen(false)}>
+              取消
+            </Button>
+            <Button size="sm" onClick={handleSave}>
+              保存
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
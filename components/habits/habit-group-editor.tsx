@@ -0,0 +1,96 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { FolderOpen } from 'lucide-react'
+
+interface HabitGroupEditorProps {
+  value?: string
+  groupNames: string[]
+  onChange: (group: string | undefined) => void
+  className?: string
+}
+
+export function HabitGroupEditor({ value, groupNames, onChange, className = '' }: HabitGroupEditorProps) {
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState(value || '')
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setDraft(value || '')
+    }
+    setOpen(nextOpen)
+  }
+
+  const handleSave = (group: string) => {
+    onChange(group.trim() || undefined)
+    setOpen(false)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={`flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors ${className}`}
+          title="设置分组"
+        >
+          <FolderOpen className="h-3.5 w-3.5" />
+          {value || '未分组'}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 bg-white/95 dark:bg-gray-800/95 backdrop-blur-sm">
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>分组名称</Label>
+            <Input
+              placeholder="如：晨课、晚课、工作日"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSave(draft)
+              }}
+              className="h-8"
+            />
+          </div>
+
+          {groupNames.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {groupNames.map(name => (
+                <button
+                  key={name}
+                  type="button"
+                  onClick={() => handleSave(name)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium transition-all duration-200 ${
+                    name === value
+                      ? 'bg-gradient-to-r from-indigo-500 to-purple-600 text-white'
+                      : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-indigo-100 dark:hover:bg-indigo-900/50'
+                  }`}
+                >
+                  {name}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-between gap-2">
+            <Button variant="ghost" size="sm" onClick={() => handleSave('')} disabled={!value}>
+              移出分组
+            </Button>
+            <div className="flex gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setOpen(false)}>
+                取消
+              </Button>
+              <Button size="sm" onClick={() => handleSave(draft)}>
+                保存
+              </Button>
+            </div>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
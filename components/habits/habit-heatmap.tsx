@@ -0,0 +1,292 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ChevronLeft, ChevronRight, CheckCircle, Circle, XCircle, EyeOff } from 'lucide-react'
+import { HabitHistory, SkipPolicy } from '@/lib/types'
+import { addDays, formatDateKey, parseDateKey, toDateKey } from '@/lib/habit-history'
+import { summarizeDay } from '@/lib/habit-stats'
+
+interface HeatmapHabit {
+  id: string
+  text: string
+}
+
+interface HabitHeatmapProps {
+  history: HabitHistory
+  habits: HeatmapHabit[]
+  skipPolicy?: SkipPolicy
+}
+
+const ALL_HABITS = 'all'
+const WEEKDAY_LABELS = ['一', '', '三', '', '五', '', '日']
+
+// 总体完成率的色阶（0 表示当天没有记录）
+const RATIO_LEVEL_CLASSES = [
+  'bg-gray-100 dark:bg-gray-800',
+  'bg-indigo-200 dark:bg-indigo-900',
+  'bg-indigo-300 dark:bg-indigo-700',
+  'bg-indigo-500 dark:bg-indigo-500',
+  'bg-indigo-700 dark:bg-indigo-300',
+]
+
+export function HabitHeatmap({ history, habits, skipPolicy = 'excused' }: HabitHeatmapProps) {
+  const [selectedHabitId, setSelectedHabitId] = useState<string>(ALL_HABITS)
+  const [monthOffset, setMonthOffset] = useState(0)
+  const [selectedDate, setSelectedDate] = useState<string | null>(null)
+
+  const today = toDateKey()
+  const weeks = buildWeeks(monthOffset)
+  const rangeStart = weeks[0].find(Boolean) as string
+  const rangeEnd = weeks[weeks.length - 1].filter(Boolean).pop() as string
+  const habitIds = habits.map(habit => habit.id)
+
+  /**
+   * 计算单元格的样式与提示文本
+   */
+  const getCellInfo = (dateKey: string): { className: string; title: string } => {
+    if (dateKey > today) {
+      return { className: 'bg-transparent', title: dateKey }
+    }
+
+    if (selectedHabitId === ALL_HABITS) {
+      const summary = summarizeDay(history, dateKey, habitIds, skipPolicy)
+      if (summary.total === 0) {
+        return { className: RATIO_LEVEL_CLASSES[0], title: `${dateKey} 无记录` }
+      }
+      const level = summary.completed === 0 ? 0 : Math.min(4, Math.ceil(summary.ratio * 4))
+      return {
+        className: RATIO_LEVEL_CLASSES[level],
+        title: `${dateKey} 完成 ${summary.completed}/${summary.total}`
+      }
+    }
+
+    const record = history[dateKey]?.[selectedHabitId]
+    if (!record) {
+      return { className: RATIO_LEVEL_CLASSES[0], title: `${dateKey} 无记录` }
+    }
+    if (record.completed) {
+      return { className: 'bg-green-500', title: `${dateKey} 已完成` }
+    }
+    if (record.skipped) {
+      return { className: 'bg-orange-200 dark:bg-orange-900/60', title: `${dateKey} 已跳过${record.skipReason ? `（${record.skipReason}）` : ''}` }
+    }
+    if (record.optional) {
+      return { className: RATIO_LEVEL_CLASSES[0], title: `${dateKey} 未打卡（不要求每天完成）` }
+    }
+    return { className: 'bg-red-200 dark:bg-red-900/60', title: `${dateKey} ${record.missed ? '错过（未打开应用）' : '未完成'}` }
+  }
+
+  const selectedDay = selectedDate ? history[selectedDate] || {} : null
+
+  return (
+    <div className="space-y-4">
+      {/* 工具栏 */}
+      <div className="flex items-center justify-between gap-3">
+        <Select
+          value={selectedHabitId}
+          onValueChange={(value) => {
+            setSelectedHabitId(value)
+            setSelectedDate(null)
+          }}
+        >
+          <SelectTrigger className="w-48 bg-white/50 dark:bg-gray-900/50">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_HABITS}>全部功课（完成率）</SelectItem>
+            {habits.map(habit => (
+              <SelectItem key={habit.id} value={habit.id}>{habit.text}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setMonthOffset(monthOffset - 1)}
+            title="上个月"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground whitespace-nowrap">
+            {formatMonth(rangeStart)} - {formatMonth(rangeEnd)}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setMonthOffset(monthOffset + 1)}
+            disabled={monthOffset >= 0}
+            title="下个月"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* 热力图 */}
+      <div className="overflow-x-auto pb-2">
+        <div className="inline-flex gap-[3px]">
+          <div className="flex flex-col gap-[3px] mr-1 pt-4">
+            {WEEKDAY_LABELS.map((label, index) => (
+              <div key={index} className="h-[10px] text-[9px] leading-[10px] text-muted-foreground">
+                {label}
+              </div>
+            ))}
+          </div>
+          {weeks.map((week, weekIndex) => {
+            const firstDay = week.find(Boolean)
+            const showMonthLabel = firstDay && parseDateKey(firstDay).getDate() <= 7
+
+            return (
+              <div key={weekIndex} className="flex flex-col gap-[3px]">
+                <div className="h-3 text-[9px] leading-3 text-muted-foreground whitespace-nowrap">
+                  {showMonthLabel ? `${parseDateKey(firstDay).getMonth() + 1}月` : ''}
+                </div>
+                {week.map((dateKey, dayIndex) => {
+                  if (!dateKey) {
+                    return <div key={dayIndex} className="w-[10px] h-[10px]" />
+                  }
+                  const cell = getCellInfo(dateKey)
+                  return (
+                    <button
+                      key={dateKey}
+                      type="button"
+                      title={cell.title}
+                      disabled={dateKey > today}
+                      onClick={() => setSelectedDate(dateKey)}
+                      className={`w-[10px] h-[10px] rounded-[2px] transition-all duration-200 hover:ring-2 hover:ring-indigo-400 ${cell.className} ${
+                        selectedDate === dateKey ? 'ring-2 ring-indigo-600 dark:ring-indigo-300' : ''
+                      }`}
+                    />
+                  )
+                })}
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      {/* 图例 */}
+      <div className="flex items-center justify-end gap-1 text-xs text-muted-foreground">
+        {selectedHabitId === ALL_HABITS ? (
+          <>
+            <span>少</span>
+            {RATIO_LEVEL_CLASSES.map((className, index) => (
+              <div key={index} className={`w-[10px] h-[10px] rounded-[2px] ${className}`} />
+            ))}
+            <span>多</span>
+          </>
+        ) : (
+          <>
+            <div className="w-[10px] h-[10px] rounded-[2px] bg-green-500" /> <span className="mr-2">完成</span>
+            <div className="w-[10px] h-[10px] rounded-[2px] bg-orange-200 dark:bg-orange-900/60" /> <span className="mr-2">跳过</span>
+            <div className="w-[10px] h-[10px] rounded-[2px] bg-red-200 dark:bg-red-900/60" /> <span>未完成</span>
+          </>
+        )}
+      </div>
+
+      {/* 选中日期详情 */}
+      {selectedDate && selectedDay && (
+        <div className="rounded-xl border border-gray-200/50 dark:border-gray-600/50 bg-white/50 dark:bg-gray-900/50 p-4 space-y-2">
+          <div className="font-medium text-gray-800 dark:text-gray-200">
+            {parseDateKey(selectedDate).toLocaleDateString('zh-CN', { year: 'numeric', month: 'long', day: 'numeric', weekday: 'long' })}
+          </div>
+          {Object.keys(selectedDay).length === 0 ? (
+            <p className="text-sm text-muted-foreground">这一天没有打卡记录</p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {habits
+                .filter(habit => selectedHabitId === ALL_HABITS || habit.id === selectedHabitId)
+                .filter(habit => selectedDay[habit.id])
+                .map(habit => {
+                  const record = selectedDay[habit.id]
+                  return (
+                    <li key={habit.id} className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        {record.completed ? (
+                          <CheckCircle className="h-4 w-4 text-green-500" />
+                        ) : record.skipped ? (
+                          <EyeOff className="h-4 w-4 text-orange-500" />
+                        ) : record.optional ? (
+                          <Circle className="h-4 w-4 text-gray-400" />
+                        ) : (
+                          <XCircle className="h-4 w-4 text-red-400" />
+                        )}
+                        <span className="flex-1">{habit.text}</span>
+                        {record.subtasks && (
+                          <span className="text-xs text-muted-foreground">
+                            步骤 {Object.values(record.subtasks).filter(Boolean).length}/{Object.keys(record.subtasks).length}
+                          </span>
+                        )}
+                        {record.skipped && record.skipReason && (
+                          <span className="text-xs text-orange-600 dark:text-orange-400">{record.skipReason}</span>
+                        )}
+                        {record.missed && (
+                          <span className="text-xs text-muted-foreground">未打开应用</span>
+                        )}
+                        {record.onTime === false && (
+                          <span className="text-xs text-amber-600 dark:text-amber-400">不准时</span>
+                        )}
+                        {record.editedAt && (
+                          <span className="text-xs text-amber-600 dark:text-amber-400">补记</span>
+                        )}
+                        {record.completedAt && (
+                          <span className="text-xs text-muted-foreground">
+                            {new Date(record.completedAt).toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit' })}
+                          </span>
+                        )}
+                      </div>
+                      {record.note && (
+                        <p className="ml-6 text-xs text-muted-foreground break-words">{record.note}</p>
+                      )}
+                    </li>
+                  )
+                })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * 构建一年范围内按周分列的日期（周一为一周起点），结束于偏移后的月份末
+ */
+function buildWeeks(monthOffset: number): Array<Array<string | null>> {
+  const now = parseDateKey(toDateKey())
+  const rangeEnd = new Date(now.getFullYear(), now.getMonth() + monthOffset + 1, 0)
+  const rangeStart = new Date(rangeEnd.getFullYear(), rangeEnd.getMonth() - 11, 1)
+
+  const startKey = formatDateKey(rangeStart)
+  const endKey = formatDateKey(rangeEnd)
+  const leadingBlanks = (rangeStart.getDay() + 6) % 7
+
+  const weeks: Array<Array<string | null>> = []
+  let week: Array<string | null> = Array(leadingBlanks).fill(null)
+
+  for (let dateKey = startKey; dateKey <= endKey; dateKey = addDays(dateKey, 1)) {
+    week.push(dateKey)
+    if (week.length === 7) {
+      weeks.push(week)
+      week = []
+    }
+  }
+
+  if (week.length > 0) {
+    weeks.push([...week, ...Array(7 - week.length).fill(null)])
+  }
+
+  return weeks
+}
+
+/**
+ * 格式化为「YYYY年M月」
+ */
+function formatMonth(dateKey: string): string {
+  const date = parseDateKey(dateKey)
+  return `${date.getFullYear()}年${date.getMonth() + 1}月`
+}
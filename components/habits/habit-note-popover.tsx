@@ -0,0 +1,76 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { StickyNote } from 'lucide-react'
+
+interface HabitNotePopoverProps {
+  note?: string
+  onSave: (note: string) => void
+}
+
+// 笔记最大长度
+const MAX_NOTE_LENGTH = 200
+
+export function HabitNotePopover({ note, onSave }: HabitNotePopoverProps) {
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState(note || '')
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setDraft(note || '')
+    }
+    setOpen(nextOpen)
+  }
+
+  const handleSave = () => {
+    onSave(draft)
+    setOpen(false)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={`flex items-center justify-center rounded-full w-8 h-8 transition-all duration-200 ${
+            note
+              ? 'text-amber-500 bg-amber-50 dark:bg-amber-900/30 hover:bg-amber-100 dark:hover:bg-amber-900/50'
+              : 'text-gray-300 dark:text-gray-600 hover:text-amber-500 hover:bg-amber-50 dark:hover:bg-amber-900/20'
+          }`}
+          title={note ? `今日笔记：${note}` : '添加今日笔记'}
+        >
+          <StickyNote className="h-4 w-4" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 bg-white/95 dark:bg-gray-800/95 backdrop-blur-sm">
+        <div className="space-y-3">
+          <h4 className="font-semibold text-gray-800 dark:text-gray-200">今日笔记</h4>
+          <Textarea
+            autoFocus
+            placeholder="记录一下今天的情况，如：跑了 5 公里，膝盖有点痛"
+            value={draft}
+            maxLength={MAX_NOTE_LENGTH}
+            onChange={(e) => setDraft(e.target.value)}
+            className="min-h-20"
+          />
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-muted-foreground">
+              {draft.length} / {MAX_NOTE_LENGTH}
+            </span>
+            <div className="flex gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setOpen(false)}>
+                取消
+              </Button>
+              <Button size="sm" onClick={handleSave}>
+                保存
+              </Button>
+            </div>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,79 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Bell, BellOff } from 'lucide-react'
+
+interface HabitReminderEditorProps {
+  value?: string
+  remindersEnabled: boolean
+  onChange: (reminderTime: string | undefined) => void
+  className?: string
+}
+
+export function HabitReminderEditor({ value, remindersEnabled, onChange, className = '' }: HabitReminderEditorProps) {
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState(value || '08:00')
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setDraft(value || '08:00')
+    }
+    setOpen(nextOpen)
+  }
+
+  const handleSave = (reminderTime: string | undefined) => {
+    onChange(reminderTime)
+    setOpen(false)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={`flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors ${className}`}
+          title="设置提醒"
+        >
+          {value ? <Bell className="h-3.5 w-3.5" /> : <BellOff className="h-3.5 w-3.5" />}
+          {value || '不提醒'}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 bg-white/95 dark:bg-gray-800/95 backdrop-blur-sm">
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>每日提醒时间</Label>
+            <Input
+              type="time"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              className="h-8"
+            />
+            {!remindersEnabled && (
+              <p className="text-xs text-muted-foreground">
+                提醒尚未开启，请在设置中开启通知提醒
+              </p>
+            )}
+          </div>
+
+          <div className="flex justify-between gap-2">
+            <Button variant="ghost" size="sm" onClick={() => handleSave(undefined)} disabled={!value}>
+              关闭提醒
+            </Button>
+            <div className="flex gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setOpen(false)}>
+                取消
+              </Button>
+              <Button size="sm" onClick={() => handleSave(draft || undefined)}>
+                保存
+              </Button>
+            </div>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
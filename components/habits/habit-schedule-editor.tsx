@@ -0,0 +1,176 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { CalendarClock } from 'lucide-react'
+import { HabitSchedule } from '@/lib/types'
+import { toDateKey } from '@/lib/habit-history'
+import { describeSchedule, WEEKDAY_NAMES } from '@/lib/habit-schedule'
+
+interface HabitScheduleEditorProps {
+  value?: HabitSchedule
+  onChange: (schedule: HabitSchedule) => void
+  className?: string
+}
+
+// 周一为一周起点
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0]
+
+export function HabitScheduleEditor({ value, onChange, className = '' }: HabitScheduleEditorProps) {
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState<HabitSchedule>(value || { type: 'daily' })
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setDraft(value || { type: 'daily' })
+    }
+    setOpen(nextOpen)
+  }
+
+  const handleTypeChange = (type: HabitSchedule['type']) => {
+    switch (type) {
+      case 'daily':
+        setDraft({ type: 'daily' })
+        break
+      case 'weekdays':
+        setDraft({ type: 'weekdays', days: [1, 2, 3, 4, 5] })
+        break
+      case 'interval':
+        setDraft({ type: 'interval', every: 2, startDate: toDateKey() })
+        break
+      case 'weekly':
+        setDraft({ type: 'weekly', times: 3 })
+        break
+      case 'monthly':
+        setDraft({ type: 'monthly', times: 4 })
+        break
+    }
+  }
+
+  const toggleWeekday = (day: number) => {
+    if (draft.type !== 'weekdays') return
+    const days = draft.days.includes(day)
+      ? draft.days.filter(d => d !== day)
+      : [...draft.days, day]
+    setDraft({ ...draft, days })
+  }
+
+  const isDraftValid = draft.type !== 'weekdays' || draft.days.length > 0
+
+  const handleSave = () => {
+    if (!isDraftValid) return
+    onChange(draft)
+    setOpen(false)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={`flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors ${className}`}
+          title="设置打卡计划"
+        >
+          <CalendarClock className="h-3.5 w-3.5" />
+          {describeSchedule(value)}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 bg-white/95 dark:bg-gray-800/95 backdrop-blur-sm">
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>打卡计划</Label>
+            <Select value={draft.type} onValueChange={(type) => handleTypeChange(type as HabitSchedule['type'])}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="daily">每天</SelectItem>
+                <SelectItem value="weekdays">每周固定几天</SelectItem>
+                <SelectItem value="interval">每 N 天一次</SelectItem>
+                <SelectItem value="weekly">每周 N 次</SelectItem>
+                <SelectItem value="monthly">每月 N 次</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {draft.type === 'weekdays' && (
+            <div className="flex justify-between gap-1">
+              {WEEKDAY_ORDER.map(day => (
+                <button
+                  key={day}
+                  type="button"
+                  onClick={() => toggleWeekday(day)}
+                  className={`w-8 h-8 rounded-full text-sm font-medium transition-all duration-200 ${
+                    draft.days.includes(day)
+                      ? 'bg-gradient-to-r from-indigo-500 to-purple-600 text-white'
+                      : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300'
+                  }`}
+                >
+                  {WEEKDAY_NAMES[day]}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {draft.type === 'interval' && (
+            <div className="flex items-center gap-2 text-sm">
+              <span>每</span>
+              <Input
+                type="number"
+                min={2}
+                max={365}
+                value={draft.every}
+                onChange={(e) => setDraft({ ...draft, every: Math.max(1, Number(e.target.value) || 1) })}
+                className="w-20 h-8"
+              />
+              <span>天一次，从今天开始</span>
+            </div>
+          )}
+
+          {draft.type === 'weekly' && (
+            <div className="flex items-center gap-2 text-sm">
+              <span>每周</span>
+              <Input
+                type="number"
+                min={1}
+                max={7}
+                value={draft.times}
+                onChange={(e) => setDraft({ ...draft, times: Math.min(7, Math.max(1, Number(e.target.value) || 1)) })}
+                className="w-20 h-8"
+              />
+              <span>次，达标后本周隐藏</span>
+            </div>
+          )}
+
+          {draft.type === 'monthly' && (
+            <div className="flex items-center gap-2 text-sm">
+              <span>每月</span>
+              <Input
+                type="number"
+                min={1}
+                max={31}
+                value={draft.times}
+                onChange={(e) => setDraft({ ...draft, times: Math.min(31, Math.max(1, Number(e.target.value) || 1)) })}
+                className="w-20 h-8"
+              />
+              <span>次，达标后本月隐藏</span>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setOpen(false)}>
+              取消
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={!isDraftValid}>
+              保存
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,83 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { EyeOff } from 'lucide-react'
+
+interface HabitSkipPopoverProps {
+  onSkip: (reason: string | undefined) => void
+}
+
+// 常用的跳过原因
+const PRESET_REASONS = ['生病', '出差', '休息日', '太忙']
+
+export function HabitSkipPopover({ onSkip }: HabitSkipPopoverProps) {
+  const [open, setOpen] = useState(false)
+  const [reason, setReason] = useState('')
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setReason('')
+    }
+    setOpen(nextOpen)
+  }
+
+  const handleSkip = (value: string) => {
+    onSkip(value.trim() || undefined)
+    setOpen(false)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-gray-400 hover:text-orange-500 hover:bg-orange-50 dark:hover:bg-orange-900/20 rounded-full w-9 h-9 p-0"
+          title="今日跳过（明日恢复）"
+        >
+          <EyeOff className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 bg-white/95 dark:bg-gray-800/95 backdrop-blur-sm">
+        <div className="space-y-4">
+          <h4 className="font-semibold text-gray-800 dark:text-gray-200">今日跳过的原因</h4>
+
+          <div className="flex flex-wrap gap-2">
+            {PRESET_REASONS.map(preset => (
+              <button
+                key={preset}
+                type="button"
+                onClick={() => handleSkip(preset)}
+                className="px-3 py-1 rounded-full text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-orange-100 dark:hover:bg-orange-900/50 transition-all duration-200"
+              >
+                {preset}
+              </button>
+            ))}
+          </div>
+
+          <Input
+            placeholder="其他原因（可不填）"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSkip(reason)
+            }}
+            className="h-8"
+          />
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setOpen(false)}>
+              取消
+            </Button>
+            <Button size="sm" onClick={() => handleSkip(reason)}>
+              跳过
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
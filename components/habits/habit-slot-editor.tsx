@@ -0,0 +1,131 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Sunrise } from 'lucide-react'
+import { CheckInWindow, HabitSlot } from '@/lib/types'
+import { describeWindow, hasWindow, SLOT_LABELS } from '@/lib/habit-slots'
+
+export interface HabitTiming {
+  slot?: HabitSlot
+  window?: CheckInWindow
+}
+
+interface HabitSlotEditorProps {
+  value: HabitTiming
+  onChange: (timing: HabitTiming) => void
+  className?: string
+}
+
+const SLOT_OPTIONS: HabitSlot[] = ['morning', 'afternoon', 'evening', 'anytime']
+
+/**
+ * 生成时段与时间窗的中文描述
+ */
+export function describeTiming(timing: HabitTiming): string {
+  const slot = timing.slot ? SLOT_LABELS[timing.slot] : '任意'
+  return hasWindow(timing.window) ? `${slot} · ${describeWindow(timing.window)}` : slot
+}
+
+export function HabitSlotEditor({ value, onChange, className = '' }: HabitSlotEditorProps) {
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState<HabitTiming>(value)
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setDraft(value)
+    }
+    setOpen(nextOpen)
+  }
+
+  const handleSave = () => {
+    const window = { start: draft.window?.start || undefined, end: draft.window?.end || undefined }
+    onChange({
+      slot: draft.slot === 'anytime' ? undefined : draft.slot,
+      window: hasWindow(window) ? window : undefined
+    })
+    setOpen(false)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={`flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors ${className}`}
+          title="设置时段与打卡时间"
+        >
+          <Sunrise className="h-3.5 w-3.5" />
+          {describeTiming(value)}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 bg-white/95 dark:bg-gray-800/95 backdrop-blur-sm">
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>时段</Label>
+            <div className="flex gap-2">
+              {SLOT_OPTIONS.map(slot => (
+                <button
+                  key={slot}
+                  type="button"
+                  onClick={() => setDraft({ ...draft, slot })}
+                  className={`flex-1 py-1 rounded-full text-xs font-medium transition-all duration-200 ${
+                    (draft.slot || 'anytime') === slot
+                      ? 'bg-gradient-to-r from-indigo-500 to-purple-600 text-white'
+                      : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-indigo-100 dark:hover:bg-indigo-900/50'
+                  }`}
+                >
+                  {SLOT_LABELS[slot]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>打卡时间窗</Label>
+            <div className="flex items-center gap-2 text-sm">
+              <Input
+                type="time"
+                value={draft.window?.start || ''}
+                onChange={(e) => setDraft({ ...draft, window: { ...draft.window, start: e.target.value } })}
+                className="h-8"
+              />
+              <span>至</span>
+              <Input
+                type="time"
+                value={draft.window?.end || ''}
+                onChange={(e) => setDraft({ ...draft, window: { ...draft.window, end: e.target.value } })}
+                className="h-8"
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              可只填一端，如只填结束时间 07:00 表示「07:00 前」；时间窗外的打卡记为不准时
+            </p>
+          </div>
+
+          <div className="flex justify-between gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setDraft({ ...draft, window: undefined })}
+              disabled={!hasWindow(draft.window)}
+            >
+              清除时间窗
+            </Button>
+            <div className="flex gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setOpen(false)}>
+                取消
+              </Button>
+              <Button size="sm" onClick={handleSave}>
+                保存
+              </Button>
+            </div>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
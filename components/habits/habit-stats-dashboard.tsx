@@ -0,0 +1,177 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts'
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Progress } from '@/components/ui/progress'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { EyeOff, Target } from 'lucide-react'
+import { HabitHistory, SkipPolicy } from '@/lib/types'
+import { computeCompletionSeries, computeHabitAdherence, computeSkipReasons, StatsGranularity } from '@/lib/habit-stats'
+
+interface StatsHabit {
+  id: string
+  text: string
+}
+
+interface HabitStatsDashboardProps {
+  history: HabitHistory
+  habits: StatsHabit[]
+  skipPolicy: SkipPolicy
+  onSkipPolicyChange: (policy: SkipPolicy) => void
+}
+
+// 各粒度显示的时间段数量
+const SERIES_LENGTH: Record<StatsGranularity, number> = {
+  day: 14,
+  week: 12,
+  month: 12
+}
+
+const chartConfig = {
+  rate: {
+    label: '完成率',
+    color: '#6366f1'
+  }
+} satisfies ChartConfig
+
+export function HabitStatsDashboard({ history, habits, skipPolicy, onSkipPolicyChange }: HabitStatsDashboardProps) {
+  const [granularity, setGranularity] = useState<StatsGranularity>('day')
+
+  const habitIds = habits.map(habit => habit.id)
+  const habitTextById = new Map(habits.map(habit => [habit.id, habit.text]))
+  const series = computeCompletionSeries(history, granularity, SERIES_LENGTH[granularity], habitIds, undefined, skipPolicy)
+  const adherence = computeHabitAdherence(history, habitIds, undefined, skipPolicy)
+  const skipReasons = computeSkipReasons(history, habitIds)
+  const mostSkipped = adherence
+    .filter(item => item.skipped > 0)
+    .sort((a, b) => b.skipped - a.skipped)
+    .slice(0, 5)
+
+  const periodTotal = series.reduce((sum, bucket) => sum + bucket.total, 0)
+  const periodCompleted = series.reduce((sum, bucket) => sum + bucket.completed, 0)
+
+  return (
+    <div className="space-y-6">
+      {/* 跳过的日子如何计算 */}
+      <div className="flex items-center justify-between gap-3 text-sm">
+        <span className="text-muted-foreground">跳过的日子</span>
+        <Select value={skipPolicy} onValueChange={(value) => onSkipPolicyChange(value as SkipPolicy)}>
+          <SelectTrigger className="w-40 h-8 bg-white/50 dark:bg-gray-900/50">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="excused">不计入（不断连续）</SelectItem>
+            <SelectItem value="missed">视为错过</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* 完成率趋势 */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h4 className="font-semibold text-gray-800 dark:text-gray-200">完成率趋势</h4>
+            <p className="text-sm text-muted-foreground">
+              期间完成 {periodCompleted} / {periodTotal} 次
+              {periodTotal > 0 && `（${Math.round((periodCompleted / periodTotal) * 100)}%）`}
+            </p>
+          </div>
+          <Tabs value={granularity} onValueChange={(value) => setGranularity(value as StatsGranularity)}>
+            <TabsList>
+              <TabsTrigger value="day">日</TabsTrigger>
+              <TabsTrigger value="week">周</TabsTrigger>
+              <TabsTrigger value="month">月</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+
+        <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+          <BarChart data={series} margin={{ left: -20, right: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} minTickGap={8} />
+            <YAxis domain={[0, 100]} tickLine={false} axisLine={false} tickFormatter={(value) => `${value}%`} />
+            <ChartTooltip
+              cursor={false}
+              content={
+                <ChartTooltipContent
+                  formatter={(value, _name, item) => (
+                    <span>
+                      完成率 {value}%（{item.payload.completed}/{item.payload.total}）
+                    </span>
+                  )}
+                />
+              }
+            />
+            <Bar dataKey="rate" fill="var(--color-rate)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+      </div>
+
+      {/* 各功课坚持率 */}
+      <div className="space-y-3">
+        <h4 className="flex items-center gap-2 font-semibold text-gray-800 dark:text-gray-200">
+          <Target className="h-4 w-4 text-indigo-500" />
+          各功课坚持率
+        </h4>
+        {adherence.length === 0 ? (
+          <p className="text-sm text-muted-foreground">暂无功课</p>
+        ) : (
+          <ul className="space-y-3">
+            {adherence.map(item => (
+              <li key={item.habitId} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="truncate text-gray-700 dark:text-gray-300">{habitTextById.get(item.habitId)}</span>
+                  <span className="font-medium">{item.rate}%</span>
+                </div>
+                <Progress value={item.rate} className="h-2 bg-gray-200 dark:bg-gray-700" />
+                <p className="text-xs text-muted-foreground">
+                  完成 {item.completed} 次 • 错过 {item.missed} 次 • 跳过 {item.skipped} 次
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* 最常跳过 */}
+      <div className="space-y-3">
+        <h4 className="flex items-center gap-2 font-semibold text-gray-800 dark:text-gray-200">
+          <EyeOff className="h-4 w-4 text-orange-500" />
+          最常跳过
+        </h4>
+        {mostSkipped.length === 0 ? (
+          <p className="text-sm text-muted-foreground">还没有跳过记录，继续保持</p>
+        ) : (
+          <ol className="space-y-2">
+            {mostSkipped.map((item, index) => (
+              <li key={item.habitId} className="flex items-center gap-3 text-sm">
+                <span className="w-6 h-6 rounded-full bg-orange-100 dark:bg-orange-900/30 text-orange-600 dark:text-orange-400 flex items-center justify-center text-xs font-bold">
+                  {index + 1}
+                </span>
+                <span className="flex-1 truncate text-gray-700 dark:text-gray-300">{habitTextById.get(item.habitId)}</span>
+                <span className="text-muted-foreground">{item.skipped} 次</span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      {/* 跳过原因 */}
+      {skipReasons.length > 0 && (
+        <div className="space-y-3">
+          <h4 className="font-semibold text-gray-800 dark:text-gray-200">跳过原因</h4>
+          <ul className="space-y-2">
+            {skipReasons.map(item => (
+              <li key={item.reason} className="flex items-center justify-between text-sm">
+                <span className="truncate text-gray-700 dark:text-gray-300">{item.reason}</span>
+                <span className="text-muted-foreground">{item.count} 次</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+"use client"
+
+import React from 'react'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Flame, Trophy, CheckCircle, CalendarCheck, StickyNote } from 'lucide-react'
+import { HabitStreakStats } from '@/lib/habit-stats'
+import { SkipPolicy } from '@/lib/types'
+
+interface HabitStreakPopoverProps {
+  habitText: string
+  stats: HabitStreakStats
+  notes?: Array<{ dateKey: string; note: string }>
+  skipPolicy?: SkipPolicy
+}
+
+// 连续记录单位的显示文字
+const STREAK_UNIT_LABELS: Record<HabitStreakStats['streakUnit'], string> = {
+  day: '天',
+  week: '周',
+  month: '个月'
+}
+
+export function HabitStreakPopover({ habitText, stats, notes = [], skipPolicy = 'excused' }: HabitStreakPopoverProps) {
+  const isActive = stats.currentStreak > 0
+  const unitLabel = STREAK_UNIT_LABELS[stats.streakUnit]
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={`flex items-center gap-1 px-2 py-1 rounded-full text-sm font-medium transition-all duration-200 ${
+            isActive
+              ? "bg-orange-100 dark:bg-orange-900/30 text-orange-600 dark:text-orange-400 hover:bg-orange-200 dark:hover:bg-orange-900/50"
+              : "bg-gray-100 dark:bg-gray-700 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+          }`}
+          title="查看连续打卡详情"
+        >
+          <Flame className="h-4 w-4" />
+          {stats.currentStreak}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 bg-white/95 dark:bg-gray-800/95 backdrop-blur-sm">
+        <div className="space-y-3">
+          <h4 className="font-semibold text-gray-800 dark:text-gray-200 truncate">{habitText}</h4>
+
+          <div className="space-y-2 text-sm">
+            <div className="flex items-center justify-between">
+              <span className="flex items-center gap-2 text-muted-foreground">
+                <Flame className="h-4 w-4 text-orange-500" />
+                当前连续
+              </span>
+              <span className="font-bold">{stats.currentStreak} {unitLabel}</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="flex items-center gap-2 text-muted-foreground">
+                <Trophy className="h-4 w-4 text-yellow-500" />
+                最长连续
+              </span>
+              <span className="font-bold">{stats.longestStreak} {unitLabel}</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="flex items-center gap-2 text-muted-foreground">
+                <CheckCircle className="h-4 w-4 text-green-500" />
+                累计完成
+              </span>
+              <span className="font-bold">{stats.totalCompletions} 次</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="flex items-center gap-2 text-muted-foreground">
+                <CalendarCheck className="h-4 w-4 text-indigo-500" />
+                上次完成
+              </span>
+              <span className="font-medium">{stats.lastCompletedDate || '暂无'}</span>
+            </div>
+          </div>
+
+          {notes.length > 0 && (
+            <div className="space-y-2 border-t border-gray-200/50 dark:border-gray-600/50 pt-3">
+              <h5 className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                <StickyNote className="h-4 w-4 text-amber-500" />
+                打卡笔记
+              </h5>
+              <ul className="max-h-40 overflow-y-auto space-y-2 text-sm">
+                {notes.map(({ dateKey, note }) => (
+                  <li key={dateKey}>
+                    <div className="text-xs text-muted-foreground">{dateKey}</div>
+                    <div className="text-gray-700 dark:text-gray-300 break-words">{note}</div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <p className="text-xs text-muted-foreground">
+            {stats.streakUnit !== 'day'
+              ? `按${stats.streakUnit === 'week' ? '周' : '月'}计算：达到次数目标即累计，进行中的周期不会中断连续记录`
+              : skipPolicy === 'excused'
+                ? '「今日跳过」的日子不会中断连续记录'
+                : '「今日跳过」的日子视为错过，会中断连续记录'}
+          </p>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,150 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { ListChecks, ChevronUp, ChevronDown, X, Plus } from 'lucide-react'
+import { HabitSubtask } from '@/lib/types'
+
+interface HabitSubtaskEditorProps {
+  value?: HabitSubtask[]
+  disabled?: boolean  // 计数/计时型习惯不使用子步骤
+  onChange: (subtasks: HabitSubtask[] | undefined) => void
+  className?: string
+}
+
+export function HabitSubtaskEditor({ value, disabled = false, onChange, className = '' }: HabitSubtaskEditorProps) {
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState<HabitSubtask[]>(value || [])
+  const [newText, setNewText] = useState('')
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setDraft(value || [])
+      setNewText('')
+    }
+    setOpen(nextOpen)
+  }
+
+  const addSubtask = () => {
+    const text = newText.trim()
+    if (!text) return
+    setDraft([...draft, { id: `${Date.now()}`, text, completed: false }])
+    setNewText('')
+  }
+
+  const renameSubtask = (id: string, text: string) => {
+    setDraft(draft.map(subtask => subtask.id === id ? { ...subtask, text } : subtask))
+  }
+
+  const moveSubtask = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= draft.length) return
+    const reordered = [...draft]
+    ;[reordered[index], reordered[target]] = [reordered[target], reordered[index]]
+    setDraft(reordered)
+  }
+
+  const handleSave = () => {
+    const subtasks = draft
+      .map(subtask => ({ ...subtask, text: subtask.text.trim() }))
+      .filter(subtask => subtask.text)
+    onChange(subtasks.length > 0 ? subtasks : undefined)
+    setOpen(false)
+  }
+
+  const count = value?.length || 0
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          disabled={disabled}
+          className={`flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors disabled:opacity-50 disabled:pointer-events-none ${className}`}
+          title={disabled ? '计数/计时型功课不支持子步骤' : '设置子步骤'}
+        >
+          <ListChecks className="h-3.5 w-3.5" />
+          {count > 0 ? `${count} 个步骤` : '无步骤'}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 bg-white/95 dark:bg-gray-800/95 backdrop-blur-sm">
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>子步骤（按顺序完成）</Label>
+            {draft.length === 0 ? (
+              <p className="text-xs text-muted-foreground">添加步骤后，全部完成时功课自动打卡</p>
+            ) : (
+              <ul className="space-y-1">
+                {draft.map((subtask, index) => (
+                  <li key={subtask.id} className="flex items-center gap-1">
+                    <span className="w-5 text-xs text-muted-foreground text-right">{index + 1}.</span>
+                    <Input
+                      value={subtask.text}
+                      onChange={(e) => renameSubtask(subtask.id, e.target.value)}
+                      className="h-8 flex-1"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveSubtask(index, -1)}
+                      disabled={index === 0}
+                      className="w-7 h-7 p-0"
+                      title="上移"
+                    >
+                      <ChevronUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveSubtask(index, 1)}
+                      disabled={index === draft.length - 1}
+                      className="w-7 h-7 p-0"
+                      title="下移"
+                    >
+                      <ChevronDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setDraft(draft.filter(item => item.id !== subtask.id))}
+                      className="w-7 h-7 p-0 text-gray-400 hover:text-red-500"
+                      title="删除步骤"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder="新步骤，如「喝一杯温水」"
+                value={newText}
+                onChange={(e) => setNewText(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') addSubtask()
+                }}
+                className="h-8"
+              />
+              <Button variant="outline" size="sm" onClick={addSubtask} disabled={!newText.trim()} className="h-8">
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setOpen(false)}>
+              取消
+            </Button>
+            <Button size="sm" onClick={handleSave}>
+              保存
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
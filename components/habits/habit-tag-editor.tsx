@@ -0,0 +1,122 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Tag, X } from 'lucide-react'
+import { normalizeTag } from '@/lib/habit-filters'
+
+interface HabitTagEditorProps {
+  value?: string[]
+  allTags: string[]  // 已有的标签，作为快速选择
+  onChange: (tags: string[] | undefined) => void
+  className?: string
+}
+
+export function HabitTagEditor({ value, allTags, onChange, className = '' }: HabitTagEditorProps) {
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState<string[]>(value || [])
+  const [newTag, setNewTag] = useState('')
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setDraft(value || [])
+      setNewTag('')
+    }
+    setOpen(nextOpen)
+  }
+
+  const addTag = (tag: string) => {
+    const normalized = normalizeTag(tag)
+    if (normalized && !draft.includes(normalized)) {
+      setDraft([...draft, normalized])
+    }
+    setNewTag('')
+  }
+
+  const handleSave = () => {
+    // 输入框中尚未回车的标签一并保存
+    const pending = normalizeTag(newTag)
+    const tags = pending && !draft.includes(pending) ? [...draft, pending] : draft
+    onChange(tags.length > 0 ? tags : undefined)
+    setOpen(false)
+  }
+
+  const suggestions = allTags.filter(tag => !draft.includes(tag))
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={`flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors ${className}`}
+          title="设置标签"
+        >
+          <Tag className="h-3.5 w-3.5" />
+          {value && value.length > 0 ? value.map(tag => `#${tag}`).join(' ') : '无标签'}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 bg-white/95 dark:bg-gray-800/95 backdrop-blur-sm">
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>标签</Label>
+            {draft.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {draft.map(tag => (
+                  <span
+                    key={tag}
+                    className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-indigo-100 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300"
+                  >
+                    #{tag}
+                    <button
+                      type="button"
+                      onClick={() => setDraft(draft.filter(item => item !== tag))}
+                      className="hover:text-red-500"
+                      title="移除标签"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            <Input
+              placeholder="输入标签后回车，如「健康」"
+              value={newTag}
+              onChange={(e) => setNewTag(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') addTag(newTag)
+              }}
+              className="h-8"
+            />
+            {suggestions.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {suggestions.map(tag => (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={() => addTag(tag)}
+                    className="px-2 py-0.5 rounded-full text-xs bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 transition-all duration-200"
+                  >
+                    #{tag}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setOpen(false)}>
+              取消
+            </Button>
+            <Button size="sm" onClick={handleSave}>
+              保存
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
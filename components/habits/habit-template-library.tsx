@@ -0,0 +1,105 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Plus } from 'lucide-react'
+import { getTemplatesByCategory, HabitTemplate, TEMPLATE_CATEGORIES } from '@/lib/habit-templates'
+import { describeSchedule } from '@/lib/habit-schedule'
+import { describeGoal } from './habit-goal-editor'
+
+interface HabitTemplateLibraryProps {
+  existingTexts: string[]  // 已有功课的名称，同名模板标记为已添加
+  onAdd: (templates: HabitTemplate[]) => void
+}
+
+export function HabitTemplateLibrary({ existingTexts, onAdd }: HabitTemplateLibraryProps) {
+  const [category, setCategory] = useState<string | null>(null)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+
+  const existing = new Set(existingTexts)
+  const templates = getTemplatesByCategory(category)
+
+  const toggleTemplate = (id: string, checked: boolean) => {
+    setSelectedIds(checked ? [...selectedIds, id] : selectedIds.filter(selectedId => selectedId !== id))
+  }
+
+  const handleAdd = () => {
+    const selected = getTemplatesByCategory(null).filter(template => selectedIds.includes(template.id))
+    if (selected.length === 0) return
+    onAdd(selected)
+    setSelectedIds([])
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* 分类 */}
+      <div className="flex flex-wrap gap-2">
+        {[null, ...TEMPLATE_CATEGORIES].map(name => (
+          <button
+            key={name || 'all'}
+            type="button"
+            onClick={() => setCategory(name)}
+            className={`px-3 py-1 rounded-full text-xs font-medium transition-all duration-200 ${
+              category === name
+                ? 'bg-gradient-to-r from-indigo-500 to-purple-600 text-white'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-indigo-100 dark:hover:bg-indigo-900/50'
+            }`}
+          >
+            {name || '全部'}
+          </button>
+        ))}
+      </div>
+
+      {/* 模板列表 */}
+      <ul className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {templates.map(template => {
+          const added = existing.has(template.text)
+          const checked = selectedIds.includes(template.id)
+          return (
+            <li key={template.id}>
+              <label
+                className={`flex items-start gap-3 p-3 rounded-xl border transition-all duration-200 ${
+                  checked
+                    ? 'border-indigo-300 dark:border-indigo-600 bg-indigo-50/50 dark:bg-indigo-900/20'
+                    : 'border-gray-200/50 dark:border-gray-600/50 bg-white/50 dark:bg-gray-900/50'
+                } ${added ? 'opacity-60' : 'cursor-pointer'}`}
+              >
+                <Checkbox
+                  checked={checked}
+                  disabled={added}
+                  onCheckedChange={(value) => toggleTemplate(template.id, value === true)}
+                  className="mt-0.5"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-800 dark:text-gray-200">{template.text}</span>
+                    {added && <span className="text-xs text-muted-foreground">已添加</span>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">{template.description}</p>
+                  <p className="text-xs text-indigo-600 dark:text-indigo-400 mt-1">
+                    {describeSchedule(template.schedule)} · {describeGoal(template)}
+                    {template.group && ` · ${template.group}`}
+                    {template.reminderTime && ` · ${template.reminderTime} 提醒`}
+                  </p>
+                </div>
+              </label>
+            </li>
+          )
+        })}
+      </ul>
+
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-sm text-muted-foreground">已选 {selectedIds.length} 项</span>
+        <Button
+          onClick={handleAdd}
+          disabled={selectedIds.length === 0}
+          className="bg-gradient-to-r from-indigo-500 to-purple-600 hover:from-indigo-600 hover:to-purple-700"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          添加所选功课
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,58 @@
+"use client"
+
+import React from 'react'
+import { Button } from '@/components/ui/button'
+import { Play, Pause, Square } from 'lucide-react'
+import { formatDuration } from '@/lib/habit-timer'
+
+interface HabitTimerControlsProps {
+  elapsedSeconds: number
+  targetMinutes: number
+  status: 'idle' | 'running' | 'paused'
+  onStart: () => void
+  onPause: () => void
+  onStop: () => void
+}
+
+export function HabitTimerControls({
+  elapsedSeconds,
+  targetMinutes,
+  status,
+  onStart,
+  onPause,
+  onStop
+}: HabitTimerControlsProps) {
+  const isRunning = status === 'running'
+
+  return (
+    <div className="flex items-center gap-1">
+      <span
+        className={`min-w-[6.5rem] text-center text-sm font-mono font-medium ${
+          isRunning ? 'text-indigo-600 dark:text-indigo-400' : 'text-gray-700 dark:text-gray-300'
+        }`}
+      >
+        {formatDuration(elapsedSeconds)} / {targetMinutes}分
+      </span>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={isRunning ? onPause : onStart}
+        className="rounded-full w-8 h-8 p-0 text-gray-500 hover:text-indigo-600"
+        title={isRunning ? '暂停' : status === 'paused' ? '继续' : '开始计时'}
+      >
+        {isRunning ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+      </Button>
+      {status !== 'idle' && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onStop}
+          className="rounded-full w-8 h-8 p-0 text-gray-500 hover:text-red-500"
+          title="结束计时"
+        >
+          <Square className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  )
+}
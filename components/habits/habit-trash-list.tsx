@@ -0,0 +1,116 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { ArchiveRestore, Trash2 } from 'lucide-react'
+import { getDaysUntilPurge, TRASH_RETENTION_OPTIONS } from '@/lib/habit-trash'
+
+interface TrashedHabit {
+  id: string
+  text: string
+  deletedAt?: string
+}
+
+interface HabitTrashListProps {
+  habits: TrashedHabit[]
+  retentionDays: number
+  onRetentionChange: (days: number) => void
+  onRestore: (id: string) => void
+  onPurge: (id: string) => void
+}
+
+export function HabitTrashList({ habits, retentionDays, onRetentionChange, onRestore, onPurge }: HabitTrashListProps) {
+  const [purgingId, setPurgingId] = useState<string | null>(null)
+  const purgingHabit = habits.find(habit => habit.id === purgingId)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3 text-sm">
+        <span className="text-muted-foreground">删除的功课保留</span>
+        <Select value={String(retentionDays)} onValueChange={(value) => onRetentionChange(Number(value))}>
+          <SelectTrigger className="w-28 h-8 bg-white/50 dark:bg-gray-900/50">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TRASH_RETENTION_OPTIONS.map(days => (
+              <SelectItem key={days} value={String(days)}>{days} 天</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {habits.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">
+          回收站是空的
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {habits.map(habit => (
+            <li
+              key={habit.id}
+              className="flex items-center gap-3 p-3 rounded-xl border border-gray-200/50 dark:border-gray-600/50 bg-white/50 dark:bg-gray-900/50"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="font-medium text-gray-800 dark:text-gray-200 truncate">{habit.text}</div>
+                <div className="text-xs text-muted-foreground">
+                  {habit.deletedAt && `删除于 ${new Date(habit.deletedAt).toLocaleDateString('zh-CN')} · `}
+                  {getDaysUntilPurge(habit, retentionDays)} 天后彻底删除
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onRestore(habit.id)}
+                className="text-gray-400 hover:text-indigo-500 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 rounded-full w-9 h-9 p-0"
+                title="恢复（连同打卡记录）"
+              >
+                <ArchiveRestore className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setPurgingId(habit.id)}
+                className="text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-full w-9 h-9 p-0"
+                title="彻底删除"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* 彻底删除确认 */}
+      <AlertDialog open={purgingId !== null} onOpenChange={(open) => !open && setPurgingId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>彻底删除「{purgingHabit?.text}」？</AlertDialogTitle>
+            <AlertDialogDescription>
+              彻底删除后无法恢复，其他设备同步后也会一并删除。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>取消</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => purgingId && onPurge(purgingId)}
+              className="bg-red-500 hover:bg-red-600"
+            >
+              彻底删除
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,98 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Calendar } from '@/components/ui/calendar'
+import { Checkbox } from '@/components/ui/checkbox'
+import { History } from 'lucide-react'
+import { HabitHistory, HabitSchedule } from '@/lib/types'
+import { addDays, formatDateKey, parseDateKey, toDateKey } from '@/lib/habit-history'
+import { isScheduledOn } from '@/lib/habit-schedule'
+
+interface PastDayHabit {
+  id: string
+  text: string
+  schedule?: HabitSchedule
+  createdAt: string
+  archivedAt?: string
+  deletedAt?: string
+}
+
+interface PastDayEditorProps {
+  history: HabitHistory
+  habits: PastDayHabit[]
+  onToggle: (dateKey: string, habitId: string, completed: boolean) => void
+}
+
+export function PastDayEditor({ history, habits, onToggle }: PastDayEditorProps) {
+  const yesterday = addDays(toDateKey(), -1)
+  const [selectedDate, setSelectedDate] = useState(yesterday)
+  const day = history[selectedDate] || {}
+
+  // 当天有记录的习惯，以及当天按计划需要打卡且已创建的习惯
+  const dayHabits = habits.filter(habit => {
+    if (day[habit.id]) return true
+    if (habit.archivedAt || habit.deletedAt) return false
+    return toDateKey(new Date(habit.createdAt)) <= selectedDate && isScheduledOn(habit.schedule, selectedDate)
+  })
+
+  return (
+    <div className="flex flex-col md:flex-row gap-6">
+      <Calendar
+        mode="single"
+        required
+        selected={parseDateKey(selectedDate)}
+        onSelect={(date) => date && setSelectedDate(formatDateKey(date))}
+        disabled={{ after: parseDateKey(yesterday) }}
+        defaultMonth={parseDateKey(yesterday)}
+        className="rounded-xl border border-gray-200/50 dark:border-gray-600/50"
+      />
+
+      <div className="flex-1 space-y-3">
+        <div className="font-medium text-gray-800 dark:text-gray-200">
+          {parseDateKey(selectedDate).toLocaleDateString('zh-CN', { year: 'numeric', month: 'long', day: 'numeric', weekday: 'long' })}
+        </div>
+
+        {dayHabits.length === 0 ? (
+          <p className="text-sm text-muted-foreground">这一天没有需要打卡的功课</p>
+        ) : (
+          <ul className="space-y-2">
+            {dayHabits.map(habit => {
+              const record = day[habit.id]
+              return (
+                <li
+                  key={habit.id}
+                  className="flex items-center gap-3 p-3 rounded-xl border border-gray-200/50 dark:border-gray-600/50 bg-white/50 dark:bg-gray-900/50"
+                >
+                  <Checkbox
+                    checked={record?.completed || false}
+                    onCheckedChange={(checked) => onToggle(selectedDate, habit.id, checked === true)}
+                  />
+                  <span className={`flex-1 ${record?.completed ? 'text-gray-500 dark:text-gray-400' : 'text-gray-800 dark:text-gray-200'}`}>
+                    {habit.text}
+                  </span>
+                  {record?.editedAt ? (
+                    <span
+                      className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400"
+                      title={`修改于 ${new Date(record.editedAt).toLocaleString('zh-CN')}`}
+                    >
+                      <History className="h-3.5 w-3.5" />
+                      补记
+                    </span>
+                  ) : record?.skipped ? (
+                    <span className="text-xs text-orange-500">已跳过{record.skipReason && `（${record.skipReason}）`}</span>
+                  ) : record?.missed ? (
+                    <span className="text-xs text-muted-foreground">未打开应用</span>
+                  ) : null}
+                </li>
+              )
+            })}
+          </ul>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          补记只修改当天的打卡记录，不影响今日功课
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,104 @@
+"use client"
+
+import React, { useEffect, useState } from 'react'
+import { Switch } from '@/components/ui/switch'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ReminderSettings as ReminderSettingsValue } from '@/lib/types'
+import { requestNotificationPermission } from '@/lib/habit-reminders'
+
+interface ReminderSettingsProps {
+  value: ReminderSettingsValue
+  onChange: (settings: ReminderSettingsValue) => void
+}
+
+// 可选的稍后提醒间隔（分钟）
+const SNOOZE_OPTIONS = [5, 10, 15, 30, 60]
+
+export function ReminderSettings({ value, onChange }: ReminderSettingsProps) {
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>('default')
+
+  useEffect(() => {
+    setPermission(typeof Notification === 'undefined' ? 'unsupported' : Notification.permission)
+  }, [])
+
+  const handleEnabledChange = async (enabled: boolean) => {
+    if (enabled) {
+      const result = await requestNotificationPermission()
+      setPermission(result)
+      if (result !== 'granted') return
+    }
+    onChange({ ...value, enabled })
+  }
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label htmlFor="reminders-enabled">通知提醒</Label>
+          <p className="text-xs text-muted-foreground">
+            {permission === 'unsupported'
+              ? '当前浏览器不支持通知'
+              : permission === 'denied'
+                ? '通知权限已被拒绝，请在浏览器设置中允许'
+                : value.enabled && permission !== 'granted'
+                  ? '提醒已随同步开启，打开开关以允许本设备的通知'
+                  : '应用打开期间按各功课设定的时间提醒'}
+          </p>
+        </div>
+        <Switch
+          id="reminders-enabled"
+          checked={value.enabled && permission === 'granted'}
+          disabled={permission === 'unsupported' || permission === 'denied'}
+          onCheckedChange={handleEnabledChange}
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <Label>稍后提醒间隔</Label>
+        <Select
+          value={String(value.snoozeMinutes)}
+          onValueChange={(minutes) => onChange({ ...value, snoozeMinutes: Number(minutes) })}
+        >
+          <SelectTrigger className="w-28 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SNOOZE_OPTIONS.map(minutes => (
+              <SelectItem key={minutes} value={String(minutes)}>{minutes} 分钟</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="quiet-hours-enabled">免打扰时段</Label>
+          <Switch
+            id="quiet-hours-enabled"
+            checked={value.quietHoursEnabled}
+            onCheckedChange={(quietHoursEnabled) => onChange({ ...value, quietHoursEnabled })}
+          />
+        </div>
+        {value.quietHoursEnabled && (
+          <div className="flex items-center gap-2 text-sm">
+            <Input
+              type="time"
+              value={value.quietStart}
+              onChange={(e) => onChange({ ...value, quietStart: e.target.value })}
+              className="w-28 h-8"
+            />
+            <span>至</span>
+            <Input
+              type="time"
+              value={value.quietEnd}
+              onChange={(e) => onChange({ ...value, quietEnd: e.target.value })}
+              className="w-28 h-8"
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
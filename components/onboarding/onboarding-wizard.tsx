@@ -0,0 +1,155 @@
+"use client"
+
+import React, { useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { AuthSetup } from '@/components/auth/auth-setup'
+import { HabitTemplateLibrary } from '@/components/habits/habit-template-library'
+import { CloudOff, Cloud, ChevronLeft, ExternalLink } from 'lucide-react'
+import { HabitTemplate } from '@/lib/habit-templates'
+
+interface OnboardingWizardProps {
+  open: boolean
+  existingTexts: string[]
+  onAddTemplates: (templates: HabitTemplate[]) => void
+  onFinish: () => void
+}
+
+type OnboardingStep = 'welcome' | 'storage' | 'github' | 'templates'
+
+// 预先勾选 repo 权限的令牌创建地址
+const TOKEN_URL = 'https://github.com/settings/tokens/new?scopes=repo&description=Daily%20Habits%20Sync'
+
+export function OnboardingWizard({ open, existingTexts, onAddTemplates, onFinish }: OnboardingWizardProps) {
+  const [step, setStep] = useState<OnboardingStep>('welcome')
+
+  const handleAddTemplates = (templates: HabitTemplate[]) => {
+    onAddTemplates(templates)
+    onFinish()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !nextOpen && onFinish()}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        {step === 'welcome' && (
+          <>
+            <DialogHeader>
+              <DialogTitle>欢迎开始修身之旅</DialogTitle>
+              <DialogDescription>
+                制定每日功课，每天打卡，用连续天数和统计报表看见自己的坚持。接下来只需两步：选择数据保存方式，再挑几项功课。
+              </DialogDescription>
+            </DialogHeader>
+            <div className="flex justify-between gap-3">
+              <Button variant="ghost" onClick={onFinish}>
+                跳过引导
+              </Button>
+              <Button onClick={() => setStep('storage')}>开始设置</Button>
+            </div>
+          </>
+        )}
+
+        {step === 'storage' && (
+          <>
+            <DialogHeader>
+              <DialogTitle>数据保存在哪里？</DialogTitle>
+              <DialogDescription>随时可以在「云端同步设置」中切换</DialogDescription>
+            </DialogHeader>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <button
+                type="button"
+                onClick={() => setStep('templates')}
+                className="text-left p-4 rounded-xl border border-gray-200/50 dark:border-gray-600/50 bg-white/50 dark:bg-gray-900/50 hover:border-indigo-300 dark:hover:border-indigo-600 transition-all duration-200"
+              >
+                <div className="flex items-center gap-2 font-semibold text-gray-800 dark:text-gray-200 mb-2">
+                  <CloudOff className="h-5 w-5 text-gray-500" />
+                  本地模式
+                </div>
+                <ul className="text-sm text-muted-foreground space-y-1 list-disc pl-4">
+                  <li>数据只保存在当前浏览器中</li>
+                  <li>无需账号，立即可用</li>
+                  <li>清除浏览器数据或换设备后无法找回</li>
+                </ul>
+              </button>
+              <button
+                type="button"
+                onClick={() => setStep('github')}
+                className="text-left p-4 rounded-xl border border-gray-200/50 dark:border-gray-600/50 bg-white/50 dark:bg-gray-900/50 hover:border-indigo-300 dark:hover:border-indigo-600 transition-all duration-200"
+              >
+                <div className="flex items-center gap-2 font-semibold text-gray-800 dark:text-gray-200 mb-2">
+                  <Cloud className="h-5 w-5 text-green-600" />
+                  云端同步
+                </div>
+                <ul className="text-sm text-muted-foreground space-y-1 list-disc pl-4">
+                  <li>数据加密后保存到你自己的 GitHub 私有仓库</li>
+                  <li>多台设备自动同步</li>
+                  <li>需要一个 GitHub 账号和访问令牌</li>
+                </ul>
+              </button>
+            </div>
+            <div className="flex justify-start">
+              <Button variant="ghost" onClick={() => setStep('welcome')}>
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                上一步
+              </Button>
+            </div>
+          </>
+        )}
+
+        {step === 'github' && (
+          <>
+            <DialogHeader>
+              <DialogTitle>连接 GitHub</DialogTitle>
+              <DialogDescription>创建一个个人访问令牌（classic），应用将用它在你的账号下创建私有仓库 daily-habits-data 保存数据</DialogDescription>
+            </DialogHeader>
+            <ol className="text-sm text-gray-700 dark:text-gray-300 space-y-2 list-decimal pl-5">
+              <li>
+                打开{' '}
+                <a
+                  href={TOKEN_URL}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-primary hover:underline"
+                >
+                  GitHub 令牌创建页面
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+                ，必要时先登录
+              </li>
+              <li>备注（Note）已预先填好，可按需修改；过期时间（Expiration）建议选择较长时间或不过期，过期后需要重新连接</li>
+              <li>
+                确认已勾选 <code className="bg-muted px-1 rounded">repo</code> 权限：创建和读写私有仓库都需要它，其他权限无需勾选
+              </li>
+              <li>点击页面底部的「Generate token」，复制以 <code className="bg-muted px-1 rounded">ghp_</code> 开头的令牌（离开页面后将无法再次查看）</li>
+              <li>粘贴到下方并连接</li>
+            </ol>
+            <AuthSetup onAuthSuccess={() => setStep('templates')} />
+            <div className="flex justify-between gap-3">
+              <Button variant="ghost" onClick={() => setStep('storage')}>
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                上一步
+              </Button>
+              <Button variant="ghost" onClick={() => setStep('templates')}>
+                暂不连接，先用本地模式
+              </Button>
+            </div>
+          </>
+        )}
+
+        {step === 'templates' && (
+          <>
+            <DialogHeader>
+              <DialogTitle>挑选你的功课</DialogTitle>
+              <DialogDescription>从模板开始，计划与目标都可以之后再调整</DialogDescription>
+            </DialogHeader>
+            <HabitTemplateLibrary existingTexts={existingTexts} onAdd={handleAddTemplates} />
+            <div className="flex justify-start">
+              <Button variant="ghost" onClick={onFinish}>
+                跳过，稍后自己添加
+              </Button>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
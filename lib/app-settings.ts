@@ -0,0 +1,104 @@
+// 应用设置 - 保存在本地并随数据同步
+
+import { AppSettings, ReminderSettings } from './types'
+
+const SETTINGS_KEY = 'appSettings'
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: false,
+  snoozeMinutes: 10,
+  quietHoursEnabled: false,
+  quietStart: '22:00',
+  quietEnd: '07:00'
+}
+
+// 划分「一天」所需的设置
+export interface DayBoundary {
+  dayStartHour: number
+  timeZone?: string
+}
+
+let cachedBoundary: { raw: string | null; boundary: DayBoundary } | null = null
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  theme: 'light',
+  autoSync: true,
+  syncInterval: 300000,
+  encryptionEnabled: true,
+  trashRetentionDays: 30,
+  reminders: DEFAULT_REMINDER_SETTINGS,
+  dayStartHour: 0,
+  skipPolicy: 'excused'
+}
+
+/**
+ * 读取应用设置，缺少的字段使用默认值（兼容旧数据）
+ */
+export function loadSettings(): AppSettings {
+  try {
+    const settingsString = localStorage.getItem(SETTINGS_KEY)
+    return settingsString ? { ...DEFAULT_SETTINGS, ...JSON.parse(settingsString) } : { ...DEFAULT_SETTINGS }
+  } catch {
+    return { ...DEFAULT_SETTINGS }
+  }
+}
+
+/**
+ * 获取提醒设置，缺少的字段使用默认值
+ */
+export function getReminderSettings(settings: AppSettings): ReminderSettings {
+  return { ...DEFAULT_REMINDER_SETTINGS, ...settings.reminders }
+}
+
+/**
+ * 获取一天的起点与时区（按本地存储的原始内容缓存，避免频繁解析）
+ */
+export function getDayBoundary(): DayBoundary {
+  let raw: string | null = null
+  try {
+    raw = localStorage.getItem(SETTINGS_KEY)
+  } catch {
+    raw = null
+  }
+
+  if (!cachedBoundary || cachedBoundary.raw !== raw) {
+    const settings = loadSettings()
+    cachedBoundary = {
+      raw,
+      boundary: { dayStartHour: settings.dayStartHour || 0, timeZone: settings.timeZone || undefined }
+    }
+  }
+  return cachedBoundary.boundary
+}
+
+/**
+ * 判断本地存储事件是否与设置相关
+ */
+export function isSettingsStorageKey(key: string | null): boolean {
+  return key === SETTINGS_KEY
+}
+
+/**
+ * 保存应用设置
+ */
+export function saveSettings(settings: AppSettings): void {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings))
+  } catch (error) {
+    console.error('Failed to save settings:', error)
+  }
+}
+
+/**
+ * 合并两端的设置，以修改时间较新的一端为准（没有修改时间的视为最旧）
+ * 同步开关与间隔属于各设备自己的配置，始终保留本地的值
+ */
+export function mergeSettings(local: AppSettings, remote: AppSettings | undefined): AppSettings {
+  if (!remote) return local
+
+  const localTime = new Date(local.updatedAt || 0).getTime()
+  const remoteTime = new Date(remote.updatedAt || 0).getTime()
+  if (localTime >= remoteTime) return local
+
+  return { ...remote, autoSync: local.autoSync, syncInterval: local.syncInterval }
+}
@@ -0,0 +1,186 @@
+// 每日重置 - 进入新的一天时归档上一天的打卡情况并重置功课状态
+
+import { CheckInRecord, HabitHistory, HabitItem } from './types'
+import { addDays, archiveDay, loadHistory, saveHistory, toDateKey, toResetDateKey } from './habit-history'
+import { filterDueHabits, isQuotaSchedule, isScheduledOn } from './habit-schedule'
+import { setAllSubtasks } from './habit-subtasks'
+import { adjustProgress, getTargetValue, isTargetReached } from './habit-progress'
+import { getRunningSeconds, loadTimers, saveTimers } from './habit-timer'
+
+const TODOS_KEY = 'dailyTodos'
+const RESET_DATE_KEY = 'lastResetDate'
+
+// 检查日期边界的间隔
+export const ROLLOVER_CHECK_INTERVAL = 60 * 1000
+
+// 最多补记的天数
+const MAX_BACKFILL_DAYS = 366
+
+/**
+ * 检查是否进入了新的一天，是则先归档上一天需要打卡的习惯，再重置所有功课
+ * 直接读写本地存储，页面与同步共用，保证不会把前一天的完成状态当作今天的同步出去
+ * 调整一天起点或时区后日期可能回退，此时不重置
+ * @returns 是否执行了重置
+ */
+export function rolloverIfNewDay(): boolean {
+  const today = toDateKey()
+  const savedResetDate = localStorage.getItem(RESET_DATE_KEY)
+  const savedResetKey = savedResetDate ? toResetDateKey(savedResetDate) : null
+
+  if (savedResetKey && savedResetKey >= today) {
+    // 统一保存为当前习惯日的日期键（兼容旧格式与日期回退的情况）
+    if (savedResetDate !== today) {
+      localStorage.setItem(RESET_DATE_KEY, today)
+    }
+    return false
+  }
+
+  const savedTodos = localStorage.getItem(TODOS_KEY)
+  if (savedTodos) {
+    const todos = JSON.parse(savedTodos) as HabitItem[]
+    if (savedResetKey) {
+      const committedTodos = commitRunningTimers(todos, savedResetKey)
+      archiveDay(savedResetKey, filterDueHabits(committedTodos, savedResetKey, loadHistory()))
+      saveHistory(backfillMissedDays(loadHistory(), savedResetKey, today, todos))
+    }
+
+    // 重置不修改 updatedAt，否则较晚跨天的设备会在合并时覆盖其他设备当天的打卡
+    localStorage.setItem(TODOS_KEY, JSON.stringify(todos.map(resetDailyState)))
+  }
+
+  localStorage.setItem(RESET_DATE_KEY, today)
+  return true
+}
+
+/**
+ * 清除习惯当天的打卡状态（完成、跳过、进度与子步骤），保留其余字段与修改时间
+ */
+export function resetDailyState<T extends HabitItem>(habit: T): T {
+  return {
+    ...habit,
+    completed: false,  // 重置为未完成
+    hidden: false,     // 恢复所有隐藏的任务
+    skipReason: undefined,
+    completedAt: undefined,
+    progress: undefined,  // 清空计数进度
+    subtasks: setAllSubtasks(habit.subtasks, false)  // 子步骤一并重置
+  }
+}
+
+/**
+ * 判断习惯的打卡状态是否属于今天之前（最后修改于之前的习惯日，如来自尚未跨天的设备）
+ * 当天的打卡都会更新修改时间，因此修改时间早于今天的完成、跳过与进度都已过期
+ * 旧数据没有修改时间（同步时以创建时间代替）时改用完成时间，都没有时无法判断，不视为过期
+ */
+export function hasStaleDailyState(habit: HabitItem, today: string = toDateKey()): boolean {
+  const hasDailyState = habit.completed || habit.hidden || !!habit.progress ||
+    !!habit.subtasks?.some(subtask => subtask.completed)
+  const changedAt = habit.updatedAt && habit.updatedAt !== habit.createdAt ? habit.updatedAt : habit.completedAt
+  return hasDailyState && !!changedAt && toDateKey(new Date(changedAt)) < today
+}
+
+/**
+ * 将运行中的计时器在上一天内经过的时间计入上一天（最多计到该习惯日结束）
+ * - 只跨过一天时从新一天的起点继续计时
+ * - 应用关闭期间跨过多天时停止计时，中间的日子无法确定如何分配
+ */
+function commitRunningTimers(todos: HabitItem[], dateKey: string): HabitItem[] {
+  const timers = loadTimers()
+  const now = Date.now()
+  const today = toDateKey(new Date(now))
+  let changed = false
+
+  const updatedTodos = todos.map(todo => {
+    const timer = timers[todo.id]
+    if (todo.kind !== 'duration' || timer?.status !== 'running' || !timer.startedAt) return todo
+    // 新的一天开始后才启动的计时（如其他标签页已跨天）不属于上一天
+    if (toDateKey(new Date(timer.startedAt)) > dateKey) return todo
+
+    const dayEnd = findDayEnd(dateKey, new Date(timer.startedAt).getTime(), now)
+    const seconds = getRunningSeconds(timer, dayEnd)
+    if (today === addDays(dateKey, 1)) {
+      timers[todo.id] = { status: 'running', startedAt: new Date(dayEnd).toISOString() }
+    } else {
+      delete timers[todo.id]
+    }
+    changed = true
+    if (seconds === 0) return todo
+
+    // 以上一天的最后时刻作为完成与修改时间，避免压过其他设备今天的打卡
+    const creditedAt = new Date(dayEnd - 1).toISOString()
+    const progress = adjustProgress(todo.progress, dateKey, seconds)
+    const completed = todo.completed || isTargetReached(progress, getTargetValue(todo), dateKey)
+    return {
+      ...todo,
+      progress,
+      completed,
+      completedAt: completed ? todo.completedAt || creditedAt : undefined,
+      updatedAt: creditedAt
+    }
+  })
+
+  if (changed) {
+    saveTimers(timers)
+  }
+  return updatedTodos
+}
+
+/**
+ * 在 [from, to] 内二分查找某个习惯日结束的时刻（按一天起点与常驻时区换算，精确到秒）
+ * 该日在 to 之前尚未结束时返回 to
+ */
+function findDayEnd(dateKey: string, from: number, to: number): number {
+  if (toDateKey(new Date(to)) <= dateKey) return to
+
+  let low = Math.min(from, to)
+  let high = to
+  while (high - low > 1000) {
+    const middle = Math.floor((low + high) / 2)
+    if (toDateKey(new Date(middle)) > dateKey) {
+      high = middle
+    } else {
+      low = middle
+    }
+  }
+  return high
+}
+
+/**
+ * 为上次重置与今天之间没有打开应用的日子补记「错过」
+ * - 按计划当天无需打卡、尚未创建、已归档或已删除的习惯不补记（视为无需打卡）
+ * - 已有记录的（如其他设备当天打过卡）保持不变
+ * - 每周/每月N次的习惯没有固定日期，不补记
+ */
+export function backfillMissedDays(
+  history: HabitHistory,
+  lastDateKey: string,
+  today: string,
+  habits: HabitItem[]
+): HabitHistory {
+  const now = new Date().toISOString()
+  const updated: HabitHistory = { ...history }
+  const firstGapDay = addDays(lastDateKey, 1)
+  const earliest = addDays(today, -MAX_BACKFILL_DAYS)
+  const startKey = firstGapDay > earliest ? firstGapDay : earliest
+
+  for (let dateKey = startKey; dateKey < today; dateKey = addDays(dateKey, 1)) {
+    const day = { ...updated[dateKey] }
+    let changed = false
+
+    for (const habit of habits) {
+      if (habit.archivedAt || habit.deletedAt || isQuotaSchedule(habit.schedule)) continue
+      if (toDateKey(new Date(habit.createdAt)) > dateKey) continue
+      if (!isScheduledOn(habit.schedule, dateKey) || day[habit.id]) continue
+
+      const record: CheckInRecord = { completed: false, skipped: false, missed: true, updatedAt: now }
+      day[habit.id] = record
+      changed = true
+    }
+
+    if (changed) {
+      updated[dateKey] = day
+    }
+  }
+
+  return updated
+}
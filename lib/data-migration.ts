@@ -2,7 +2,10 @@
 
 import { syncManager } from './sync-manager'
 import { authManager } from './auth-manager'
-import { HabitsData, HabitItem } from './types'
+import { loadHistory, mergeHistory, toDateKey, toResetDateKey } from './habit-history'
+import { sortByOrder } from './habit-order'
+import { loadSettings } from './app-settings'
+import { HabitsData, HabitItem, HabitSchedule, HabitKind, CountProgress, HabitSubtask, HabitSlot, CheckInWindow } from './types'
 
 interface MigrationResult {
   success: boolean
@@ -108,7 +111,8 @@ class DataMigration {
   private static getLocalHabitsData(): HabitsData {
     try {
       const todosString = localStorage.getItem('dailyTodos')
-      const lastResetDate = localStorage.getItem('lastResetDate') || new Date().toDateString()
+      const savedResetDate = localStorage.getItem('lastResetDate')
+      const lastResetDate = savedResetDate ? toResetDateKey(savedResetDate) : toDateKey()
 
       const habits: HabitItem[] = []
 
@@ -118,7 +122,26 @@ class DataMigration {
           text: string
           completed: boolean
           hidden?: boolean
+          completedAt?: string
+          schedule?: HabitSchedule
+          kind?: HabitKind
+          target?: number
+          unit?: string
+          progress?: CountProgress
+          group?: string
+          order?: number
+          orderedAt?: string
+          archivedAt?: string
+          deletedAt?: string
+          reminderTime?: string
+          skipReason?: string
+          subtasks?: HabitSubtask[]
+          slot?: HabitSlot
+          window?: CheckInWindow
+          tags?: string[]
+          tagsUpdatedAt?: string
           createdAt: string
+          updatedAt?: string
         }>
 
         habits.push(...todos.map(todo => ({
@@ -126,8 +149,26 @@ class DataMigration {
           text: todo.text,
           completed: todo.completed,
           hidden: todo.hidden || false,
+          completedAt: todo.completedAt,
+          schedule: todo.schedule,
+          kind: todo.kind,
+          target: todo.target,
+          unit: todo.unit,
+          progress: todo.progress,
+          group: todo.group,
+          order: todo.order,
+          orderedAt: todo.orderedAt,
+          archivedAt: todo.archivedAt,
+          deletedAt: todo.deletedAt,
+          reminderTime: todo.reminderTime,
+          skipReason: todo.skipReason,
+          subtasks: todo.subtasks,
+          slot: todo.slot,
+          window: todo.window,
+          tags: todo.tags,
+          tagsUpdatedAt: todo.tagsUpdatedAt,
           createdAt: todo.createdAt,
-          updatedAt: todo.createdAt // 如果没有更新时间，使用创建时间
+          updatedAt: todo.updatedAt || todo.createdAt // 旧数据没有更新时间，使用创建时间
         })))
       }
 
@@ -136,12 +177,8 @@ class DataMigration {
         lastSync: new Date().toISOString(),
         lastResetDate,
         habits,
-        settings: {
-          theme: 'light',
-          autoSync: true,
-          syncInterval: 300000,
-          encryptionEnabled: true
-        }
+        history: loadHistory(),
+        settings: loadSettings()
       }
     } catch (error) {
       console.error('Failed to get local habits data:', error)
@@ -200,9 +237,8 @@ class DataMigration {
       version: '1.0',
       lastSync: new Date().toISOString(),
       lastResetDate: local.lastResetDate,
-      habits: mergedHabits.sort((a, b) => 
-        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
-      ),
+      habits: sortByOrder(mergedHabits),
+      history: mergeHistory(local.history || {}, remote.history || {}),
       settings: {
         ...remote.settings,
         ...local.settings // 本地设置优先
@@ -217,7 +253,7 @@ class DataMigration {
     return {
       version: '1.0',
       lastSync: new Date().toISOString(),
-      lastResetDate: new Date().toDateString(),
+      lastResetDate: toDateKey(),
       habits: [],
       settings: {
         theme: 'light',
@@ -8,6 +8,7 @@ import {
   HabitsData,
   BackupInfo
 } from './types'
+import { toDateKey } from './habit-history'
 
 interface GitHubAPIResponse<T> {
   data: T
@@ -469,7 +470,7 @@ class GitHubClient {
     return {
       version: '1.0',
       lastSync: new Date().toISOString(),
-      lastResetDate: new Date().toDateString(),
+      lastResetDate: toDateKey(),
       habits: [],
       settings: {
         theme: 'light',
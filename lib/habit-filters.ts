@@ -0,0 +1,65 @@
+// 标签与列表筛选 - 按标签、完成状态与今日计划筛选功课，并管理保存的视图
+
+import { HabitFilter, SavedView } from './types'
+
+export const DEFAULT_FILTER: HabitFilter = {
+  tags: [],
+  status: 'all',
+  dueOnly: true
+}
+
+export interface FilterableHabit {
+  completed: boolean
+  tags?: string[]
+}
+
+/**
+ * 规范化标签：去掉首尾空白与开头的「#」
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').trim()
+}
+
+/**
+ * 汇总所有习惯用到的标签（按首次出现的顺序）
+ */
+export function getAllTags(habits: FilterableHabit[]): string[] {
+  const tags = new Set<string>()
+  for (const habit of habits) {
+    habit.tags?.forEach(tag => tags.add(tag))
+  }
+  return Array.from(tags)
+}
+
+/**
+ * 判断筛选条件是否与默认条件不同
+ */
+export function isFilterActive(filter: HabitFilter): boolean {
+  return !isSameFilter(filter, DEFAULT_FILTER)
+}
+
+/**
+ * 判断两个筛选条件是否相同（标签顺序无关）
+ */
+export function isSameFilter(a: HabitFilter, b: HabitFilter): boolean {
+  return a.status === b.status &&
+    a.dueOnly === b.dueOnly &&
+    a.tags.length === b.tags.length &&
+    a.tags.every(tag => b.tags.includes(tag))
+}
+
+/**
+ * 判断习惯是否符合筛选条件（今日计划由调用方判断）
+ */
+export function matchesFilter(habit: FilterableHabit, filter: HabitFilter): boolean {
+  if (filter.status === 'completed' && !habit.completed) return false
+  if (filter.status === 'incomplete' && habit.completed) return false
+  return filter.tags.every(tag => habit.tags?.includes(tag))
+}
+
+/**
+ * 查找与当前筛选条件相同的已保存视图
+ */
+export function findSavedView(views: SavedView[], filter: HabitFilter): SavedView | undefined {
+  return views.find(view => isSameFilter(view.filter, filter))
+}
@@ -0,0 +1,64 @@
+// 习惯分组 - 按分组名称整理习惯，并记住各分组的折叠状态
+
+const COLLAPSED_GROUPS_KEY = 'collapsedGroups'
+
+export interface HabitGroupSection<T> {
+  name: string | null  // null 表示未分组
+  habits: T[]
+}
+
+/**
+ * 按分组整理习惯，未分组的排在最前，其余分组按首次出现的顺序排列
+ */
+export function groupHabits<T extends { group?: string }>(habits: T[]): HabitGroupSection<T>[] {
+  const sections = new Map<string | null, T[]>([[null, []]])
+
+  for (const habit of habits) {
+    const name = habit.group?.trim() || null
+    const section = sections.get(name)
+    if (section) {
+      section.push(habit)
+    } else {
+      sections.set(name, [habit])
+    }
+  }
+
+  return Array.from(sections.entries())
+    .filter(([, sectionHabits]) => sectionHabits.length > 0)
+    .map(([name, sectionHabits]) => ({ name, habits: sectionHabits }))
+}
+
+/**
+ * 获取所有已使用的分组名称
+ */
+export function getGroupNames(habits: Array<{ group?: string }>): string[] {
+  const names = new Set<string>()
+  for (const habit of habits) {
+    const name = habit.group?.trim()
+    if (name) names.add(name)
+  }
+  return Array.from(names)
+}
+
+/**
+ * 读取已折叠的分组（仅保存在本设备）
+ */
+export function loadCollapsedGroups(): string[] {
+  try {
+    const collapsedString = localStorage.getItem(COLLAPSED_GROUPS_KEY)
+    return collapsedString ? JSON.parse(collapsedString) : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * 保存已折叠的分组
+ */
+export function saveCollapsedGroups(groups: string[]): void {
+  try {
+    localStorage.setItem(COLLAPSED_GROUPS_KEY, JSON.stringify(groups))
+  } catch (error) {
+    console.error('Failed to save collapsed groups:', error)
+  }
+}
@@ -0,0 +1,332 @@
+// 打卡历史管理 - 在每日重置前记录每天的完成情况
+
+import { CheckInRecord, CheckInWindow, CountProgress, HabitHistory, HabitKind, HabitSchedule, HabitSubtask } from './types'
+import { getProgressValue, getTargetValue, isProgressHabit, isTargetReached, mergeProgress } from './habit-progress'
+import { hasChecklist, toSubtaskRecord } from './habit-subtasks'
+import { isCheckInOnTime } from './habit-slots'
+import { getDayBoundary } from './app-settings'
+
+const HISTORY_STORAGE_KEY = 'habitHistory'
+
+/**
+ * 记录打卡所需的最少习惯字段
+ */
+export interface CheckInSource {
+  id: string
+  completed: boolean
+  hidden: boolean
+  completedAt?: string
+  skipReason?: string
+  kind?: HabitKind
+  target?: number
+  progress?: CountProgress
+  subtasks?: HabitSubtask[]
+  window?: CheckInWindow
+  schedule?: HabitSchedule
+  createdAt?: string
+  updatedAt?: string
+}
+
+// 无法确定修改时间的记录使用最早的时间戳，合并时不会覆盖任何实际打卡
+const UNSTAMPED = new Date(0).toISOString()
+
+/**
+ * 每周/每月N次的习惯不要求每天完成，未完成的日子不计为错过
+ * （与 habit-schedule 的 isQuotaSchedule 一致，此处单独判断以避免循环引用）
+ */
+function isOptionalDay(habit: Pick<CheckInSource, 'schedule'>, completed: boolean): true | undefined {
+  const type = habit.schedule?.type
+  return !completed && (type === 'weekly' || type === 'monthly') ? true : undefined
+}
+
+/**
+ * 生成某一时刻所属「习惯日」的日期键（YYYY-MM-DD，可排序）
+ * 按设置中的常驻时区与一天起点换算：起点为 4 点时，凌晨 0:30 仍算作前一天
+ * 每日重置、打卡历史与同步都使用此函数，保证日期边界一致
+ */
+export function toDateKey(date: Date = new Date()): string {
+  const { dayStartHour, timeZone } = getDayBoundary()
+  const shifted = new Date(date.getTime() - dayStartHour * 60 * 60 * 1000)
+  return timeZone ? formatDateKeyInTimeZone(shifted, timeZone) : formatDateKey(shifted)
+}
+
+/**
+ * 按所给时区格式化日期键，时区无效时退回设备本地时间
+ */
+function formatDateKeyInTimeZone(date: Date, timeZone: string): string {
+  try {
+    const parts = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit'
+    }).formatToParts(date)
+    const get = (type: string) => parts.find(part => part.type === type)?.value
+    return `${get('year')}-${get('month')}-${get('day')}`
+  } catch {
+    return formatDateKey(date)
+  }
+}
+
+/**
+ * 将日历日期格式化为日期键（本地时间，不做换算，用于日期计算）
+ */
+export function formatDateKey(date: Date): string {
+  const year = date.getFullYear()
+  const month = (date.getMonth() + 1).toString().padStart(2, '0')
+  const day = date.getDate().toString().padStart(2, '0')
+  return `${year}-${month}-${day}`
+}
+
+/**
+ * 将日期键解析为本地时间的 Date 对象
+ */
+export function parseDateKey(dateKey: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+/**
+ * 日期键加减天数
+ */
+export function addDays(dateKey: string, days: number): string {
+  const date = parseDateKey(dateKey)
+  date.setDate(date.getDate() + days)
+  return formatDateKey(date)
+}
+
+/**
+ * 将上次重置日期转换为日期键（兼容旧版本以 toDateString 保存的值）
+ */
+export function toResetDateKey(value: string): string {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : formatDateKey(new Date(value))
+}
+
+/**
+ * 从本地存储读取打卡历史
+ */
+export function loadHistory(): HabitHistory {
+  try {
+    const historyString = localStorage.getItem(HISTORY_STORAGE_KEY)
+    return historyString ? JSON.parse(historyString) : {}
+  } catch (error) {
+    console.error('Failed to load habit history:', error)
+    return {}
+  }
+}
+
+/**
+ * 保存打卡历史到本地存储
+ */
+export function saveHistory(history: HabitHistory): void {
+  try {
+    localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history))
+  } catch (error) {
+    console.error('Failed to save habit history:', error)
+  }
+}
+
+/**
+ * 将某一天的习惯状态写入历史（纯函数，返回新的历史对象）
+ */
+export function recordDay(
+  history: HabitHistory,
+  dateKey: string,
+  habits: CheckInSource[]
+): HabitHistory {
+  const previousDay = history[dateKey] || {}
+  const day: Record<string, CheckInRecord> = { ...previousDay }
+
+  for (const habit of habits) {
+    const previous = previousDay[habit.id]
+    // 记录的修改时间取自习惯本身，只有用户改动过的习惯才会带上新的时间戳
+    const updatedAt = habit.updatedAt || habit.completedAt || habit.createdAt || UNSTAMPED
+    const record: CheckInRecord = {
+      completed: habit.completed,
+      skipped: habit.hidden && !habit.completed,
+      skipReason: habit.hidden && !habit.completed ? habit.skipReason : undefined,
+      completedAt: habit.completed ? habit.completedAt : undefined,
+      onTime: habit.completed ? isCheckInOnTime(habit, habit.completedAt) : undefined,
+      optional: habit.hidden ? undefined : isOptionalDay(habit, habit.completed),
+      note: previous?.note,
+      noteUpdatedAt: previous?.noteUpdatedAt,
+      updatedAt
+    }
+
+    if (hasChecklist(habit)) {
+      record.subtasks = toSubtaskRecord(habit.subtasks)
+    }
+
+    if (isProgressHabit(habit)) {
+      record.target = getTargetValue(habit)
+      record.progress = habit.progress?.date === dateKey ? habit.progress : undefined
+      if (habit.kind === 'duration') {
+        record.minutes = Math.floor(getProgressValue(record.progress) / 60)
+      }
+    }
+
+    // 状态未变化、或原记录更新（如同步来的另一端打卡）时保留原记录
+    if (
+      previous &&
+      !previous.missed &&
+      new Date(previous.updatedAt).getTime() > new Date(updatedAt).getTime()
+    ) {
+      continue
+    }
+
+    if (
+      previous &&
+      !previous.missed &&
+      previous.completed === record.completed &&
+      previous.skipped === record.skipped &&
+      previous.skipReason === record.skipReason &&
+      previous.completedAt === record.completedAt &&
+      previous.onTime === record.onTime &&
+      previous.optional === record.optional &&
+      previous.target === record.target &&
+      previous.minutes === record.minutes &&
+      JSON.stringify(previous.progress) === JSON.stringify(record.progress) &&
+      JSON.stringify(previous.subtasks) === JSON.stringify(record.subtasks)
+    ) {
+      continue
+    }
+
+    day[habit.id] = record
+  }
+
+  return { ...history, [dateKey]: day }
+}
+
+/**
+ * 记录某一天的习惯状态并持久化
+ */
+export function archiveDay(dateKey: string, habits: CheckInSource[]): HabitHistory {
+  const history = recordDay(loadHistory(), dateKey, habits)
+  saveHistory(history)
+  return history
+}
+
+/**
+ * 事后修改过去某天的打卡状态（补打卡或取消），只改动该天的历史记录
+ * 计数/计时型习惯的进度不再适用，改为直接记录完成与否
+ */
+export function setPastCheckIn(
+  dateKey: string,
+  habit: Pick<CheckInSource, 'id' | 'kind' | 'target' | 'schedule'>,
+  completed: boolean
+): HabitHistory {
+  const history = loadHistory()
+  const now = new Date().toISOString()
+  const previous = history[dateKey]?.[habit.id]
+
+  const record: CheckInRecord = {
+    completed,
+    skipped: false,
+    target: isProgressHabit(habit) ? getTargetValue(habit) : undefined,
+    minutes: previous?.minutes,
+    optional: isOptionalDay(habit, completed),
+    note: previous?.note,
+    noteUpdatedAt: previous?.noteUpdatedAt,
+    editedAt: now,
+    updatedAt: now
+  }
+
+  const updated = { ...history, [dateKey]: { ...history[dateKey], [habit.id]: record } }
+  saveHistory(updated)
+  return updated
+}
+
+/**
+ * 为某天某习惯的打卡记录设置笔记（笔记为空时删除）
+ */
+export function setCheckInNote(dateKey: string, habitId: string, note: string): HabitHistory {
+  const history = loadHistory()
+  const now = new Date().toISOString()
+  const previous = history[dateKey]?.[habitId]
+  const trimmed = note.trim()
+
+  // 只更新笔记的修改时间，打卡状态的合并仍以原记录为准；新建的记录不能覆盖另一端的实际打卡
+  const record: CheckInRecord = {
+    ...(previous || { completed: false, skipped: false, updatedAt: UNSTAMPED }),
+    note: trimmed || undefined,
+    noteUpdatedAt: now
+  }
+
+  const updated = { ...history, [dateKey]: { ...history[dateKey], [habitId]: record } }
+  saveHistory(updated)
+  return updated
+}
+
+/**
+ * 获取某个习惯的所有打卡笔记（按日期从新到旧）
+ */
+export function getHabitNotes(history: HabitHistory, habitId: string): Array<{ dateKey: string; note: string }> {
+  return Object.keys(history)
+    .filter(dateKey => history[dateKey][habitId]?.note)
+    .sort()
+    .reverse()
+    .map(dateKey => ({ dateKey, note: history[dateKey][habitId].note as string }))
+}
+
+/**
+ * 合并同一天同一习惯的两条记录，计数进度按设备合并，笔记以较新的笔记为准，其余字段以较新的记录为准
+ */
+function mergeRecord(local: CheckInRecord, remote: CheckInRecord): CheckInRecord {
+  // 补记的错过记录只在对方也没有实际打卡时保留（另一台设备当天可能打开过应用）
+  if (local.missed !== remote.missed) {
+    return mergeNote(local.missed ? remote : local, local, remote)
+  }
+
+  const localIsNewer = new Date(local.updatedAt).getTime() >= new Date(remote.updatedAt).getTime()
+  const newer = mergeNote(localIsNewer ? local : remote, local, remote)
+
+  if (!local.progress || !remote.progress) {
+    return newer
+  }
+
+  const progress = mergeProgress(local.progress, remote.progress)
+  const completed = isTargetReached(progress, newer.target)
+
+  return {
+    ...newer,
+    progress,
+    completed,
+    skipped: newer.skipped && !completed,
+    completedAt: completed ? local.completedAt || remote.completedAt : undefined,
+    minutes: newer.minutes === undefined ? undefined : Math.floor(getProgressValue(progress) / 60)
+  }
+}
+
+/**
+ * 笔记单独以较新的修改为准，避免打卡状态的修改覆盖另一端写的笔记
+ */
+function mergeNote(base: CheckInRecord, local: CheckInRecord, remote: CheckInRecord): CheckInRecord {
+  const localNoteTime = new Date(local.noteUpdatedAt || 0).getTime()
+  const remoteNoteTime = new Date(remote.noteUpdatedAt || 0).getTime()
+  const newerNote = localNoteTime >= remoteNoteTime ? local : remote
+
+  return { ...base, note: newerNote.note, noteUpdatedAt: newerNote.noteUpdatedAt }
+}
+
+/**
+ * 合并两份打卡历史，同一天同一习惯以较新的记录为准（计数进度按设备合并）
+ */
+export function mergeHistory(local: HabitHistory, remote: HabitHistory): HabitHistory {
+  const merged: HabitHistory = {}
+  const allDates = new Set([...Object.keys(local), ...Object.keys(remote)])
+
+  for (const dateKey of allDates) {
+    const localDay = local[dateKey] || {}
+    const remoteDay = remote[dateKey] || {}
+    const day: Record<string, CheckInRecord> = { ...remoteDay }
+
+    for (const [id, localRecord] of Object.entries(localDay)) {
+      const remoteRecord = remoteDay[id]
+      day[id] = remoteRecord ? mergeRecord(localRecord, remoteRecord) : localRecord
+    }
+
+    merged[dateKey] = day
+  }
+
+  return merged
+}
@@ -0,0 +1,50 @@
+// 习惯排序 - 显式的排序键，移动时只改动被移动的习惯，多设备合并不会互相覆盖
+
+const ORDER_STEP = 1000
+
+/**
+ * 排序所需的最少习惯字段
+ */
+export interface OrderableHabit {
+  order?: number
+  createdAt: string
+}
+
+/**
+ * 获取排序键，未设置时按创建时间排序
+ */
+export function getOrderKey(habit: OrderableHabit): number {
+  return habit.order ?? new Date(habit.createdAt).getTime()
+}
+
+/**
+ * 按排序键排序（返回新数组）
+ */
+export function sortByOrder<T extends OrderableHabit>(habits: T[]): T[] {
+  return [...habits].sort((a, b) => getOrderKey(a) - getOrderKey(b))
+}
+
+/**
+ * 计算把 fromIndex 的习惯移动到 toIndex 后的新排序键
+ * 新键取移动后相邻两项的中间值，只需修改被移动的一项
+ */
+export function computeMovedOrder<T extends OrderableHabit>(
+  sortedHabits: T[],
+  fromIndex: number,
+  toIndex: number
+): number {
+  const remaining = sortedHabits.filter((_, index) => index !== fromIndex)
+  const before = remaining[toIndex - 1]
+  const after = remaining[toIndex]
+
+  if (before && after) {
+    return (getOrderKey(before) + getOrderKey(after)) / 2
+  }
+  if (before) {
+    return getOrderKey(before) + ORDER_STEP
+  }
+  if (after) {
+    return getOrderKey(after) - ORDER_STEP
+  }
+  return getOrderKey(sortedHabits[fromIndex])
+}
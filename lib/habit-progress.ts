@@ -0,0 +1,128 @@
+// 计数进度 - 计数/计时型习惯的增减、合并与完成度计算
+
+import { CountProgress, HabitKind, HabitSubtask } from './types'
+
+const DEVICE_ID_KEY = 'device-id'
+
+/**
+ * 计算完成度所需的最少习惯字段
+ */
+export interface ProgressSource {
+  completed: boolean
+  kind?: HabitKind
+  target?: number
+  progress?: CountProgress
+  subtasks?: HabitSubtask[]
+}
+
+/**
+ * 获取当前设备ID（与安全存储共用同一个ID）
+ */
+export function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY)
+  if (!deviceId) {
+    deviceId = crypto.randomUUID()
+    localStorage.setItem(DEVICE_ID_KEY, deviceId)
+  }
+  return deviceId
+}
+
+/**
+ * 获取某天的计数值，进度不属于该天时返回 0
+ */
+export function getProgressValue(progress: CountProgress | undefined, dateKey?: string): number {
+  if (!progress || (dateKey && progress.date !== dateKey)) return 0
+
+  const sum = (counts: Record<string, number>) =>
+    Object.values(counts).reduce((total, value) => total + value, 0)
+
+  return Math.max(0, sum(progress.inc) - sum(progress.dec))
+}
+
+/**
+ * 在当前设备上增减计数（结果不会小于 0）
+ */
+export function adjustProgress(
+  progress: CountProgress | undefined,
+  dateKey: string,
+  delta: number
+): CountProgress {
+  const base: CountProgress = progress && progress.date === dateKey
+    ? progress
+    : { date: dateKey, inc: {}, dec: {} }
+
+  const current = getProgressValue(base)
+  const applied = Math.max(delta, -current)
+  if (applied === 0) return base
+
+  const deviceId = getDeviceId()
+  const field = applied > 0 ? 'inc' : 'dec'
+
+  return {
+    ...base,
+    [field]: {
+      ...base[field],
+      [deviceId]: (base[field][deviceId] || 0) + Math.abs(applied)
+    }
+  }
+}
+
+/**
+ * 合并两份计数进度：同一天逐设备取最大值，不同天以较新的一天为准
+ */
+export function mergeProgress(
+  a: CountProgress | undefined,
+  b: CountProgress | undefined
+): CountProgress | undefined {
+  if (!a || !b) return a || b
+  if (a.date !== b.date) return a.date > b.date ? a : b
+
+  const mergeCounts = (x: Record<string, number>, y: Record<string, number>) => {
+    const merged: Record<string, number> = { ...x }
+    for (const [deviceId, value] of Object.entries(y)) {
+      merged[deviceId] = Math.max(merged[deviceId] || 0, value)
+    }
+    return merged
+  }
+
+  return {
+    date: a.date,
+    inc: mergeCounts(a.inc, b.inc),
+    dec: mergeCounts(a.dec, b.dec)
+  }
+}
+
+/**
+ * 判断习惯是否按进度计算完成
+ */
+export function isProgressHabit(habit: { kind?: HabitKind }): boolean {
+  return habit.kind === 'count' || habit.kind === 'duration'
+}
+
+/**
+ * 获取与进度同单位的目标值（计时型目标为分钟，进度为秒）
+ */
+export function getTargetValue(habit: { kind?: HabitKind; target?: number }): number {
+  const target = Math.max(1, habit.target || 1)
+  return habit.kind === 'duration' ? target * 60 : target
+}
+
+/**
+ * 判断计数是否达到目标
+ */
+export function isTargetReached(progress: CountProgress | undefined, target: number | undefined, dateKey?: string): boolean {
+  return getProgressValue(progress, dateKey) >= Math.max(1, target || 1)
+}
+
+/**
+ * 计算习惯当天的完成度（0 ~ 1），计数/计时型按目标比例、带子步骤的按已完成步骤计算部分进度
+ */
+export function getCompletionRatio(habit: ProgressSource, dateKey?: string): number {
+  if (isProgressHabit(habit)) {
+    return Math.min(1, getProgressValue(habit.progress, dateKey) / getTargetValue(habit))
+  }
+  if (!habit.completed && habit.subtasks && habit.subtasks.length > 0) {
+    return habit.subtasks.filter(subtask => subtask.completed).length / habit.subtasks.length
+  }
+  return habit.completed ? 1 : 0
+}
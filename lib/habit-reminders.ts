@@ -0,0 +1,195 @@
+// 习惯提醒 - 在应用（或其 Service Worker）运行期间通过浏览器通知提醒打卡
+
+import { ReminderSettings } from './types'
+import { toDateKey } from './habit-history'
+import { getMinutesOfDay, parseTimeOfDay } from './habit-slots'
+import { getDayBoundary } from './app-settings'
+
+const REMINDER_STATE_KEY = 'habitReminders'
+const REMINDER_WORKER_PATH = '/reminder-sw.js'
+
+// 通知中的操作按钮
+export type ReminderAction = 'done' | 'snooze'
+
+export interface ReminderMessage {
+  type: 'reminder-action'
+  action: ReminderAction | 'open'
+  habitId: string
+}
+
+// 各习惯在本设备上的提醒状态（不同步）
+export interface HabitReminderState {
+  lastFiredDate?: string  // 最近一次按时提醒的日期键
+  snoozedUntil?: string  // 稍后提醒的时间
+}
+
+export type HabitReminderStates = Record<string, HabitReminderState>
+
+export interface RemindableHabit {
+  id: string
+  text: string
+  completed: boolean
+  hidden: boolean
+  reminderTime?: string
+}
+
+/**
+ * 读取本设备的提醒状态
+ */
+export function loadReminderStates(): HabitReminderStates {
+  try {
+    const statesString = localStorage.getItem(REMINDER_STATE_KEY)
+    return statesString ? JSON.parse(statesString) : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * 保存本设备的提醒状态
+ */
+export function saveReminderStates(states: HabitReminderStates): void {
+  try {
+    localStorage.setItem(REMINDER_STATE_KEY, JSON.stringify(states))
+  } catch (error) {
+    console.error('Failed to save reminder states:', error)
+  }
+}
+
+/**
+ * 判断某个时刻是否处于免打扰时段（按常驻时区，支持跨午夜，如 22:00 - 07:00）
+ */
+export function isInQuietHours(settings: ReminderSettings, date: Date = new Date()): boolean {
+  if (!settings.quietHoursEnabled) return false
+
+  const minutes = getMinutesOfDay(date)
+  const start = parseTimeOfDay(settings.quietStart)
+  const end = parseTimeOfDay(settings.quietEnd)
+
+  if (start === end) return false
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end
+}
+
+/**
+ * 找出此刻需要提醒的习惯
+ * - 今天已到提醒时间且尚未提醒过，或稍后提醒的时间已到
+ * - 已完成或今日跳过的习惯不提醒
+ * - 免打扰时段内暂不提醒，结束后补发
+ */
+export function getDueReminders<T extends RemindableHabit>(
+  habits: T[],
+  settings: ReminderSettings,
+  states: HabitReminderStates,
+  now: Date = new Date()
+): T[] {
+  if (!settings.enabled || isInQuietHours(settings, now)) return []
+
+  const todayKey = toDateKey(now)
+  // 按习惯日计算分钟数（从一天的起点算起），与 todayKey 的日期边界一致
+  const dayStart = getDayBoundary().dayStartHour * 60
+  const toHabitDayMinutes = (value: number) => (value - dayStart + 24 * 60) % (24 * 60)
+  const minutes = toHabitDayMinutes(getMinutesOfDay(now))
+
+  return habits.filter(habit => {
+    if (!habit.reminderTime || habit.completed || habit.hidden) return false
+
+    const state = states[habit.id] || {}
+    if (state.snoozedUntil) {
+      return now.getTime() >= new Date(state.snoozedUntil).getTime()
+    }
+    return state.lastFiredDate !== todayKey && minutes >= toHabitDayMinutes(parseTimeOfDay(habit.reminderTime))
+  })
+}
+
+/**
+ * 记录已发出提醒（同时清除稍后提醒）
+ */
+export function markReminderFired(
+  states: HabitReminderStates,
+  habitId: string,
+  now: Date = new Date()
+): HabitReminderStates {
+  return { ...states, [habitId]: { lastFiredDate: toDateKey(now) } }
+}
+
+/**
+ * 设置稍后提醒
+ */
+export function snoozeReminder(
+  states: HabitReminderStates,
+  habitId: string,
+  snoozeMinutes: number,
+  now: Date = new Date()
+): HabitReminderStates {
+  return {
+    ...states,
+    [habitId]: {
+      lastFiredDate: toDateKey(now),
+      snoozedUntil: new Date(now.getTime() + snoozeMinutes * 60 * 1000).toISOString()
+    }
+  }
+}
+
+/**
+ * 注册提醒用的 Service Worker（用于通知按钮与点击处理）
+ */
+export async function registerReminderWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return null
+  try {
+    const basePath = process.env.NEXT_PUBLIC_BASE_PATH || ''
+    return await navigator.serviceWorker.register(`${basePath}${REMINDER_WORKER_PATH}`)
+  } catch (error) {
+    console.error('Failed to register reminder worker:', error)
+    return null
+  }
+}
+
+/**
+ * 请求通知权限
+ */
+export async function requestNotificationPermission(): Promise<NotificationPermission> {
+  if (typeof Notification === 'undefined') return 'denied'
+  if (Notification.permission !== 'default') return Notification.permission
+  return Notification.requestPermission()
+}
+
+/**
+ * 发出提醒通知，有 Service Worker 时附带「完成」「稍后提醒」按钮
+ */
+export async function showReminderNotification(habit: RemindableHabit, snoozeMinutes: number): Promise<void> {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return
+
+  const title = `该打卡了：${habit.text}`
+  const options: NotificationOptions = {
+    body: '日拱一足，功不唐捐',
+    tag: `habit-reminder-${habit.id}`,
+    data: { habitId: habit.id }
+  }
+
+  try {
+    const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined
+    if (registration) {
+      const actions = [
+        { action: 'done', title: '完成' },
+        { action: 'snooze', title: `${snoozeMinutes} 分钟后提醒` }
+      ]
+      await registration.showNotification(title, { ...options, actions } as NotificationOptions)
+      return
+    }
+  } catch (error) {
+    console.error('Failed to show notification via service worker:', error)
+  }
+
+  // 没有 Service Worker 时退回普通通知（不支持按钮）
+  const notification = new Notification(title, options)
+  notification.onclick = () => window.focus()
+}
+
+/**
+ * 判断消息是否来自提醒 Service Worker
+ */
+export function isReminderMessage(data: unknown): data is ReminderMessage {
+  return typeof data === 'object' && data !== null && (data as ReminderMessage).type === 'reminder-action'
+}
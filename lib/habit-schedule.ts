@@ -0,0 +1,159 @@
+// 习惯计划 - 判断习惯在某一天是否需要打卡
+
+import { HabitHistory, HabitSchedule, QuotaSchedule } from './types'
+import { addDays, formatDateKey, parseDateKey } from './habit-history'
+
+export const WEEKDAY_NAMES = ['日', '一', '二', '三', '四', '五', '六']
+
+/**
+ * 判断计划所需的最少习惯字段
+ */
+export interface SchedulableHabit {
+  id: string
+  completed: boolean
+  schedule?: HabitSchedule
+  archivedAt?: string
+  deletedAt?: string
+}
+
+/**
+ * 计算两个日期键之间相差的天数
+ */
+export function daysBetween(fromKey: string, toKey: string): number {
+  const diff = parseDateKey(toKey).getTime() - parseDateKey(fromKey).getTime()
+  return Math.round(diff / (24 * 60 * 60 * 1000))
+}
+
+/**
+ * 按日历规则判断某天是否安排了该习惯
+ * 每周/每月N次的习惯没有固定日期，每天都可以打卡
+ */
+export function isScheduledOn(schedule: HabitSchedule | undefined, dateKey: string): boolean {
+  if (!schedule) return true
+
+  switch (schedule.type) {
+    case 'daily':
+    case 'weekly':
+    case 'monthly':
+      return true
+    case 'weekdays':
+      return schedule.days.includes(parseDateKey(dateKey).getDay())
+    case 'interval': {
+      const diff = daysBetween(schedule.startDate, dateKey)
+      return diff >= 0 && diff % Math.max(1, schedule.every) === 0
+    }
+  }
+}
+
+/**
+ * 判断是否为按周期计次的计划
+ */
+export function isQuotaSchedule(schedule: HabitSchedule | undefined): schedule is QuotaSchedule {
+  return schedule?.type === 'weekly' || schedule?.type === 'monthly'
+}
+
+/**
+ * 获取某天所在周期的第一天（每周N次从周一起，每月N次从1号起）
+ */
+export function getPeriodStart(schedule: QuotaSchedule, dateKey: string): string {
+  const date = parseDateKey(dateKey)
+  if (schedule.type === 'monthly') {
+    return formatDateKey(new Date(date.getFullYear(), date.getMonth(), 1))
+  }
+  return addDays(dateKey, -((date.getDay() + 6) % 7))
+}
+
+/**
+ * 统计某天所在周期在该天之前已完成的次数
+ */
+export function countPeriodCompletionsBefore(
+  history: HabitHistory,
+  habitId: string,
+  dateKey: string,
+  schedule: QuotaSchedule
+): number {
+  let count = 0
+  for (let day = getPeriodStart(schedule, dateKey); day < dateKey; day = addDays(day, 1)) {
+    if (history[day]?.[habitId]?.completed) {
+      count++
+    }
+  }
+  return count
+}
+
+export interface QuotaProgress {
+  completed: number  // 本周期已完成次数（含今天）
+  times: number
+  label: string  // 「本周」或「本月」
+}
+
+/**
+ * 计算按周期计次的习惯在本周期的进度，其他计划返回 null
+ */
+export function getQuotaProgress(
+  habit: SchedulableHabit,
+  dateKey: string,
+  history: HabitHistory
+): QuotaProgress | null {
+  const schedule = habit.schedule
+  if (!isQuotaSchedule(schedule)) return null
+
+  return {
+    completed: countPeriodCompletionsBefore(history, habit.id, dateKey, schedule) + (habit.completed ? 1 : 0),
+    times: schedule.times,
+    label: schedule.type === 'monthly' ? '本月' : '本周'
+  }
+}
+
+/**
+ * 判断习惯在某天是否需要出现在「今日功课」中
+ * 已归档或已移入回收站的习惯不再出现
+ * 每周/每月N次的习惯在本周期达标前一直显示，达标后隐藏（当天已完成的仍然显示）
+ */
+export function isHabitDue(habit: SchedulableHabit, dateKey: string, history: HabitHistory): boolean {
+  if (habit.archivedAt || habit.deletedAt) return false
+
+  const schedule = habit.schedule
+  if (!isScheduledOn(schedule, dateKey)) return false
+
+  if (isQuotaSchedule(schedule)) {
+    return habit.completed || countPeriodCompletionsBefore(history, habit.id, dateKey, schedule) < schedule.times
+  }
+
+  return true
+}
+
+/**
+ * 过滤出某天需要打卡的习惯
+ */
+export function filterDueHabits<T extends SchedulableHabit>(
+  habits: T[],
+  dateKey: string,
+  history: HabitHistory
+): T[] {
+  return habits.filter(habit => isHabitDue(habit, dateKey, history))
+}
+
+/**
+ * 生成计划的中文描述
+ */
+export function describeSchedule(schedule: HabitSchedule | undefined): string {
+  if (!schedule) return '每天'
+
+  switch (schedule.type) {
+    case 'daily':
+      return '每天'
+    case 'weekdays':
+      if (schedule.days.length === 7) return '每天'
+      return '每周' + [...schedule.days]
+        .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+        .map(day => WEEKDAY_NAMES[day])
+        .join('、')
+    case 'interval':
+      return schedule.every <= 1 ? '每天' : `每 ${schedule.every} 天`
+    case 'weekly':
+      return `每周 ${schedule.times} 次`
+    case 'monthly':
+      return `每月 ${schedule.times} 次`
+  }
+}
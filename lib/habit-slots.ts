@@ -0,0 +1,125 @@
+// 时段与打卡时间窗 - 按当前时段排列习惯，并判断打卡是否准时
+
+import { CheckInWindow, HabitSlot } from './types'
+import { getDayBoundary } from './app-settings'
+
+export const SLOT_LABELS: Record<HabitSlot, string> = {
+  morning: '晨',
+  afternoon: '午',
+  evening: '晚',
+  anytime: '任意'
+}
+
+// 各时段的开始时间（分钟），晚于最后一个时段的时间都算「晚」
+const SLOT_STARTS: Array<[Exclude<HabitSlot, 'anytime'>, number]> = [
+  ['morning', 0],
+  ['afternoon', 12 * 60],
+  ['evening', 18 * 60]
+]
+
+export interface SlottedHabit {
+  slot?: HabitSlot
+  window?: CheckInWindow
+}
+
+/**
+ * 将「HH:mm」转换为当天的分钟数
+ */
+export function parseTimeOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return (hours || 0) * 60 + (minutes || 0)
+}
+
+/**
+ * 获取某一时刻在常驻时区中的分钟数（0 ~ 1439），时区无效时使用设备本地时间
+ */
+export function getMinutesOfDay(date: Date = new Date()): number {
+  const { timeZone } = getDayBoundary()
+  if (timeZone) {
+    try {
+      const parts = new Intl.DateTimeFormat('en-GB', {
+        timeZone,
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23'
+      }).formatToParts(date)
+      const get = (type: string) => Number(parts.find(part => part.type === type)?.value)
+      return get('hour') * 60 + get('minute')
+    } catch {
+      // 退回设备本地时间
+    }
+  }
+  return date.getHours() * 60 + date.getMinutes()
+}
+
+/**
+ * 获取某一时刻所处的时段
+ */
+export function getCurrentSlot(date: Date = new Date()): Exclude<HabitSlot, 'anytime'> {
+  const minutes = getMinutesOfDay(date)
+  let current = SLOT_STARTS[0][0]
+  for (const [slot, start] of SLOT_STARTS) {
+    if (minutes >= start) current = slot
+  }
+  return current
+}
+
+/**
+ * 按当前时段排列习惯：当前时段 → 任意时段 → 之后的时段 → 已过去的时段，同一时段内保持原顺序
+ */
+export function sortBySlot<T extends SlottedHabit>(habits: T[], currentSlot: Exclude<HabitSlot, 'anytime'>): T[] {
+  if (!habits.some(habit => habit.slot && habit.slot !== 'anytime')) return habits
+
+  const currentIndex = SLOT_STARTS.findIndex(([slot]) => slot === currentSlot)
+  const rank = (slot: HabitSlot | undefined): number => {
+    if (!slot || slot === 'anytime') return 1
+    const index = SLOT_STARTS.findIndex(([name]) => name === slot)
+    if (index === currentIndex) return 0
+    return index > currentIndex ? 1 + index - currentIndex : 1 + SLOT_STARTS.length + index
+  }
+
+  return habits
+    .map((habit, index) => ({ habit, index, rank: rank(habit.slot) }))
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .map(item => item.habit)
+}
+
+/**
+ * 判断是否设置了有效的时间窗
+ */
+export function hasWindow(window: CheckInWindow | undefined): window is CheckInWindow {
+  return !!(window && (window.start || window.end))
+}
+
+/**
+ * 判断某一时刻是否处于时间窗内（支持跨午夜，如 22:00 - 01:00）
+ */
+export function isWithinWindow(window: CheckInWindow | undefined, date: Date = new Date()): boolean {
+  if (!hasWindow(window)) return true
+
+  const minutes = getMinutesOfDay(date)
+  const start = window.start ? parseTimeOfDay(window.start) : 0
+  const end = window.end ? parseTimeOfDay(window.end) : 24 * 60
+
+  if (start === end) return true
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end
+}
+
+/**
+ * 判断打卡是否准时（没有时间窗的习惯返回 undefined）
+ */
+export function isCheckInOnTime(habit: SlottedHabit, completedAt: string | undefined): boolean | undefined {
+  if (!hasWindow(habit.window) || !completedAt) return undefined
+  return isWithinWindow(habit.window, new Date(completedAt))
+}
+
+/**
+ * 生成时间窗的中文描述，如「07:00 前」「21:00 - 23:00」
+ */
+export function describeWindow(window: CheckInWindow | undefined): string {
+  if (!hasWindow(window)) return '不限时间'
+  if (window.start && window.end) return `${window.start} - ${window.end}`
+  return window.start ? `${window.start} 后` : `${window.end} 前`
+}
@@ -0,0 +1,331 @@
+// 习惯统计 - 基于打卡历史计算连续天数、完成率与坚持率
+
+import { HabitHistory, HabitSchedule, QuotaSchedule, SkipPolicy } from './types'
+import { addDays, formatDateKey, parseDateKey, toDateKey } from './habit-history'
+import { getPeriodStart, isQuotaSchedule, isScheduledOn } from './habit-schedule'
+
+export interface HabitStreakStats {
+  currentStreak: number
+  longestStreak: number
+  totalCompletions: number
+  lastCompletedDate: string | null
+  streakUnit: 'day' | 'week' | 'month'  // 连续记录的单位，每周/每月N次的习惯按周期计算
+}
+
+/**
+ * 计算单个习惯的连续打卡统计
+ * - 完成的日子累加连续天数
+ * - 跳过（今日跳过）的日子按跳过算法处理：不计入时视为中性，视为错过时中断
+ * - 按计划无需打卡的日子视为中性
+ * - 每周/每月N次的习惯按周期计算连续达标的周数或月数
+ * - 其余未完成或没有记录的日子中断连续
+ * - 今天尚未完成时不中断连续（当天仍在进行中）
+ */
+export function computeHabitStreak(
+  history: HabitHistory,
+  habitId: string,
+  today: string = toDateKey(),
+  schedule?: HabitSchedule,
+  skipPolicy: SkipPolicy = 'excused'
+): HabitStreakStats {
+  if (isQuotaSchedule(schedule)) {
+    return computeQuotaStreak(history, habitId, today, schedule)
+  }
+
+  const stats: HabitStreakStats = {
+    currentStreak: 0,
+    longestStreak: 0,
+    totalCompletions: 0,
+    lastCompletedDate: null,
+    streakUnit: 'day'
+  }
+
+  const recordedDates = Object.keys(history)
+    .filter(dateKey => dateKey <= today && history[dateKey][habitId])
+    .sort()
+
+  if (recordedDates.length === 0) {
+    return stats
+  }
+
+  let run = 0
+  for (let dateKey = recordedDates[0]; dateKey <= today; dateKey = addDays(dateKey, 1)) {
+    const record = history[dateKey]?.[habitId]
+
+    if (record?.completed) {
+      run++
+      stats.totalCompletions++
+      stats.lastCompletedDate = dateKey
+      stats.longestStreak = Math.max(stats.longestStreak, run)
+    } else if ((record?.skipped && skipPolicy === 'excused') || dateKey === today) {
+      continue
+    } else if (!record && !isScheduledOn(schedule, dateKey)) {
+      continue
+    } else {
+      run = 0
+    }
+  }
+
+  stats.currentStreak = run
+  return stats
+}
+
+/**
+ * 计算每周/每月N次习惯的连续达标周期数
+ * - 周期内完成次数达到目标时累加
+ * - 本周期尚未结束，未达标时不中断连续
+ */
+function computeQuotaStreak(
+  history: HabitHistory,
+  habitId: string,
+  today: string,
+  schedule: QuotaSchedule
+): HabitStreakStats {
+  const stats: HabitStreakStats = {
+    currentStreak: 0,
+    longestStreak: 0,
+    totalCompletions: 0,
+    lastCompletedDate: null,
+    streakUnit: schedule.type === 'monthly' ? 'month' : 'week'
+  }
+
+  const recordedDates = Object.keys(history)
+    .filter(dateKey => dateKey <= today && history[dateKey][habitId])
+    .sort()
+
+  if (recordedDates.length === 0) {
+    return stats
+  }
+
+  let run = 0
+  let periodStart = getPeriodStart(schedule, recordedDates[0])
+  let periodCompletions = 0
+
+  for (let dateKey = periodStart; dateKey <= today; dateKey = addDays(dateKey, 1)) {
+    const dayPeriod = getPeriodStart(schedule, dateKey)
+    if (dayPeriod !== periodStart) {
+      // 上一个周期结束
+      run = periodCompletions >= schedule.times ? run + 1 : 0
+      stats.longestStreak = Math.max(stats.longestStreak, run)
+      periodStart = dayPeriod
+      periodCompletions = 0
+    }
+
+    if (history[dateKey]?.[habitId]?.completed) {
+      periodCompletions++
+      stats.totalCompletions++
+      stats.lastCompletedDate = dateKey
+    }
+  }
+
+  // 本周期（含今天）已达标则计入，未达标不中断
+  if (periodCompletions >= schedule.times) {
+    run++
+  }
+  stats.currentStreak = run
+  stats.longestStreak = Math.max(stats.longestStreak, run)
+  return stats
+}
+
+/**
+ * 批量计算多个习惯的连续打卡统计
+ */
+export function computeAllStreaks(
+  history: HabitHistory,
+  habits: Array<{ id: string; schedule?: HabitSchedule }>,
+  today: string = toDateKey(),
+  skipPolicy: SkipPolicy = 'excused'
+): Record<string, HabitStreakStats> {
+  const result: Record<string, HabitStreakStats> = {}
+  for (const habit of habits) {
+    result[habit.id] = computeHabitStreak(history, habit.id, today, habit.schedule, skipPolicy)
+  }
+  return result
+}
+
+export interface DaySummary {
+  dateKey: string
+  completed: number
+  total: number
+  ratio: number
+}
+
+/**
+ * 汇总某一天的完成情况（跳过不计入时，跳过的习惯不计入分母）
+ * 每周/每月N次的习惯未完成的日子不计入分母
+ */
+export function summarizeDay(
+  history: HabitHistory,
+  dateKey: string,
+  habitIds?: string[],
+  skipPolicy: SkipPolicy = 'excused'
+): DaySummary {
+  const day = history[dateKey] || {}
+  const ids = habitIds || Object.keys(day)
+  let completed = 0
+  let total = 0
+
+  for (const id of ids) {
+    const record = day[id]
+    if (!record || (record.skipped && skipPolicy === 'excused') || (record.optional && !record.completed)) continue
+    total++
+    if (record.completed) completed++
+  }
+
+  return {
+    dateKey,
+    completed,
+    total,
+    ratio: total > 0 ? completed / total : 0
+  }
+}
+
+export type StatsGranularity = 'day' | 'week' | 'month'
+
+export interface CompletionBucket {
+  key: string
+  label: string
+  completed: number
+  total: number
+  rate: number
+}
+
+export interface HabitAdherence {
+  habitId: string
+  completed: number
+  skipped: number
+  missed: number
+  rate: number
+}
+
+/**
+ * 获取日期所在周的周一
+ */
+export function getWeekStart(dateKey: string): string {
+  const weekday = (parseDateKey(dateKey).getDay() + 6) % 7
+  return addDays(dateKey, -weekday)
+}
+
+/**
+ * 按日/周/月汇总完成率，返回最近 count 个时间段（从旧到新）
+ */
+export function computeCompletionSeries(
+  history: HabitHistory,
+  granularity: StatsGranularity,
+  count: number,
+  habitIds?: string[],
+  today: string = toDateKey(),
+  skipPolicy: SkipPolicy = 'excused'
+): CompletionBucket[] {
+  const buckets: CompletionBucket[] = []
+
+  for (let i = count - 1; i >= 0; i--) {
+    let start: string
+    let end: string
+    let label: string
+
+    if (granularity === 'day') {
+      start = end = addDays(today, -i)
+      const date = parseDateKey(start)
+      label = `${date.getMonth() + 1}/${date.getDate()}`
+    } else if (granularity === 'week') {
+      start = addDays(getWeekStart(today), -7 * i)
+      end = addDays(start, 6)
+      const date = parseDateKey(start)
+      label = `${date.getMonth() + 1}/${date.getDate()}周`
+    } else {
+      const todayDate = parseDateKey(today)
+      const monthStart = new Date(todayDate.getFullYear(), todayDate.getMonth() - i, 1)
+      start = formatDateKey(monthStart)
+      end = formatDateKey(new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 0))
+      label = `${monthStart.getMonth() + 1}月`
+    }
+
+    let completed = 0
+    let total = 0
+    for (let dateKey = start; dateKey <= end && dateKey <= today; dateKey = addDays(dateKey, 1)) {
+      const summary = summarizeDay(history, dateKey, habitIds, skipPolicy)
+      completed += summary.completed
+      total += summary.total
+    }
+
+    buckets.push({
+      key: start,
+      label,
+      completed,
+      total,
+      rate: total > 0 ? Math.round((completed / total) * 100) : 0
+    })
+  }
+
+  return buckets
+}
+
+/**
+ * 计算每个习惯的坚持率（跳过不计入时，跳过的日子不计入分母）
+ * 跳过与错过分别计数，视为错过时跳过的日子也计入分母
+ * 每周/每月N次的习惯未完成的日子不计为错过
+ */
+export function computeHabitAdherence(
+  history: HabitHistory,
+  habitIds: string[],
+  today: string = toDateKey(),
+  skipPolicy: SkipPolicy = 'excused'
+): HabitAdherence[] {
+  const adherence = new Map<string, HabitAdherence>(
+    habitIds.map(id => [id, { habitId: id, completed: 0, skipped: 0, missed: 0, rate: 0 }])
+  )
+
+  for (const [dateKey, day] of Object.entries(history)) {
+    if (dateKey > today) continue
+
+    for (const [id, record] of Object.entries(day)) {
+      const item = adherence.get(id)
+      if (!item) continue
+
+      if (record.completed) {
+        item.completed++
+      } else if (record.skipped) {
+        item.skipped++
+      } else if (dateKey !== today && !record.optional) {
+        // 今天尚未结束，未完成不计为错过
+        item.missed++
+      }
+    }
+  }
+
+  return Array.from(adherence.values()).map(item => {
+    const total = item.completed + item.missed + (skipPolicy === 'missed' ? item.skipped : 0)
+    return { ...item, rate: total > 0 ? Math.round((item.completed / total) * 100) : 0 }
+  })
+}
+
+export interface SkipReasonCount {
+  reason: string
+  count: number
+}
+
+/**
+ * 统计跳过的原因（未填写原因的归为「未注明」），按次数从多到少排列
+ */
+export function computeSkipReasons(
+  history: HabitHistory,
+  habitIds: string[],
+  today: string = toDateKey()
+): SkipReasonCount[] {
+  const ids = new Set(habitIds)
+  const counts = new Map<string, number>()
+
+  for (const [dateKey, day] of Object.entries(history)) {
+    if (dateKey > today) continue
+    for (const [id, record] of Object.entries(day)) {
+      if (!ids.has(id) || !record.skipped) continue
+      const reason = record.skipReason?.trim() || '未注明'
+      counts.set(reason, (counts.get(reason) || 0) + 1)
+    }
+  }
+
+  return Array.from(counts.entries())
+    .map(([reason, count]) => ({ reason, count }))
+    .sort((a, b) => b.count - a.count)
+}
@@ -0,0 +1,54 @@
+// 子步骤清单 - 习惯内的有序步骤，步骤全部完成时习惯自动完成
+
+import { HabitKind, HabitSubtask } from './types'
+import { isProgressHabit } from './habit-progress'
+
+export interface ChecklistHabit {
+  kind?: HabitKind
+  completed: boolean
+  completedAt?: string
+  subtasks?: HabitSubtask[]
+}
+
+/**
+ * 判断习惯是否按子步骤完成（仅打勾型习惯，计数/计时型仍按进度完成）
+ */
+export function hasChecklist(habit: { kind?: HabitKind; subtasks?: HabitSubtask[] }): boolean {
+  return !isProgressHabit(habit) && (habit.subtasks?.length || 0) > 0
+}
+
+/**
+ * 统计已完成的子步骤数量
+ */
+export function countCompletedSubtasks(subtasks: HabitSubtask[] | undefined): number {
+  return (subtasks || []).filter(subtask => subtask.completed).length
+}
+
+/**
+ * 将所有子步骤设为完成或未完成
+ */
+export function setAllSubtasks(subtasks: HabitSubtask[] | undefined, completed: boolean): HabitSubtask[] | undefined {
+  return subtasks?.map(subtask => ({ ...subtask, completed }))
+}
+
+/**
+ * 根据子步骤更新习惯的完成状态：全部完成时自动完成，否则恢复为未完成
+ */
+export function withChecklistCompletion<T extends ChecklistHabit>(habit: T, now: string = new Date().toISOString()): T {
+  if (!hasChecklist(habit)) return habit
+
+  const completed = countCompletedSubtasks(habit.subtasks) === habit.subtasks!.length
+  return {
+    ...habit,
+    completed,
+    completedAt: completed ? habit.completedAt || now : undefined
+  }
+}
+
+/**
+ * 生成当天各子步骤完成情况的历史记录
+ */
+export function toSubtaskRecord(subtasks: HabitSubtask[] | undefined): Record<string, boolean> | undefined {
+  if (!subtasks || subtasks.length === 0) return undefined
+  return Object.fromEntries(subtasks.map(subtask => [subtask.id, subtask.completed]))
+}
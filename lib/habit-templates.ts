@@ -0,0 +1,183 @@
+// 习惯模板 - 精选常见功课及建议的计划与目标，可批量添加
+
+import { CheckInWindow, HabitKind, HabitSchedule, HabitSlot } from './types'
+
+export interface HabitTemplate {
+  id: string
+  text: string
+  description: string  // 简短说明，显示在模板库中
+  category: string
+  schedule?: HabitSchedule  // 建议的打卡计划，未设置为每天
+  kind?: HabitKind
+  target?: number
+  unit?: string
+  group?: string  // 建议的分组，如「晨课」「晚课」
+  reminderTime?: string  // 建议的提醒时间（HH:mm）
+  slot?: HabitSlot
+  window?: CheckInWindow
+}
+
+// 模板分类（按显示顺序）
+export const TEMPLATE_CATEGORIES = ['晨间', '学习', '运动', '身心', '生活']
+
+export const HABIT_TEMPLATES: HabitTemplate[] = [
+  {
+    id: 'early-rise',
+    text: '晨起',
+    description: '6:30 前起床，一日之计在于晨',
+    category: '晨间',
+    group: '晨课',
+    reminderTime: '06:30',
+    slot: 'morning',
+    window: { end: '07:00' }
+  },
+  {
+    id: 'morning-water',
+    text: '晨起一杯温水',
+    description: '起床后先补充水分',
+    category: '晨间',
+    group: '晨课'
+  },
+  {
+    id: 'morning-plan',
+    text: '规划今日',
+    description: '写下今天最重要的三件事',
+    category: '晨间',
+    group: '晨课'
+  },
+  {
+    id: 'reading',
+    text: '读书',
+    description: '每天读几页，积少成多',
+    category: '学习',
+    kind: 'count',
+    target: 20,
+    unit: '页',
+    group: '晚课'
+  },
+  {
+    id: 'vocabulary',
+    text: '背单词',
+    description: '每日新词与复习',
+    category: '学习',
+    kind: 'count',
+    target: 30,
+    unit: '个'
+  },
+  {
+    id: 'calligraphy',
+    text: '练字',
+    description: '静心临帖',
+    category: '学习',
+    kind: 'duration',
+    target: 20
+  },
+  {
+    id: 'running',
+    text: '跑步',
+    description: '每周三次，每次半小时',
+    category: '运动',
+    schedule: { type: 'weekly', times: 3 },
+    kind: 'duration',
+    target: 30
+  },
+  {
+    id: 'strength',
+    text: '力量训练',
+    description: '隔天训练，给肌肉恢复时间',
+    category: '运动',
+    schedule: { type: 'weekdays', days: [1, 3, 5] }
+  },
+  {
+    id: 'walking',
+    text: '散步',
+    description: '日行八千步',
+    category: '运动',
+    kind: 'count',
+    target: 8000,
+    unit: '步'
+  },
+  {
+    id: 'stretching',
+    text: '拉伸',
+    description: '久坐之后舒展筋骨',
+    category: '运动',
+    kind: 'duration',
+    target: 10
+  },
+  {
+    id: 'meditation',
+    text: '静坐',
+    description: '每日静坐十分钟，观呼吸',
+    category: '身心',
+    kind: 'duration',
+    target: 10,
+    group: '晨课',
+    slot: 'morning'
+  },
+  {
+    id: 'journal',
+    text: '写日记',
+    description: '记录一天的所思所得',
+    category: '身心',
+    group: '晚课',
+    slot: 'evening'
+  },
+  {
+    id: 'weekly-review',
+    text: '每周复盘',
+    description: '周日回顾本周，调整下周计划',
+    category: '身心',
+    schedule: { type: 'weekdays', days: [0] }
+  },
+  {
+    id: 'drink-water',
+    text: '喝水',
+    description: '每天八杯水',
+    category: '生活',
+    kind: 'count',
+    target: 8,
+    unit: '杯'
+  },
+  {
+    id: 'no-short-video',
+    text: '不刷短视频',
+    description: '把时间留给更重要的事',
+    category: '生活'
+  },
+  {
+    id: 'early-sleep',
+    text: '早睡',
+    description: '23:00 前放下手机入睡',
+    category: '生活',
+    group: '晚课',
+    reminderTime: '22:30',
+    slot: 'evening'
+  }
+]
+
+/**
+ * 按分类整理模板
+ */
+export function getTemplatesByCategory(category: string | null): HabitTemplate[] {
+  return category ? HABIT_TEMPLATES.filter(template => template.category === category) : HABIT_TEMPLATES
+}
+
+/**
+ * 根据模板生成新习惯的字段（不含 ID 与时间戳）
+ */
+export function createHabitFromTemplate(template: HabitTemplate) {
+  return {
+    text: template.text,
+    completed: false,
+    hidden: false,
+    schedule: template.schedule,
+    kind: template.kind,
+    target: template.target,
+    unit: template.unit,
+    group: template.group,
+    reminderTime: template.reminderTime,
+    slot: template.slot,
+    window: template.window
+  }
+}
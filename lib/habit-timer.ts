@@ -0,0 +1,64 @@
+// 习惯计时器 - 计时型习惯的运行状态，保存在本地以便跨刷新、跨标签页继续计时
+
+const TIMERS_STORAGE_KEY = 'habitTimers'
+
+export interface HabitTimerState {
+  status: 'running' | 'paused'
+  startedAt?: string  // 本段计时的开始时间（仅运行中有效）
+}
+
+// 习惯ID → 计时器状态
+export type HabitTimers = Record<string, HabitTimerState>
+
+/**
+ * 从本地存储读取计时器状态
+ */
+export function loadTimers(): HabitTimers {
+  try {
+    const timersString = localStorage.getItem(TIMERS_STORAGE_KEY)
+    return timersString ? JSON.parse(timersString) : {}
+  } catch (error) {
+    console.error('Failed to load habit timers:', error)
+    return {}
+  }
+}
+
+/**
+ * 保存计时器状态到本地存储
+ */
+export function saveTimers(timers: HabitTimers): void {
+  try {
+    localStorage.setItem(TIMERS_STORAGE_KEY, JSON.stringify(timers))
+  } catch (error) {
+    console.error('Failed to save habit timers:', error)
+  }
+}
+
+/**
+ * 计算本段计时尚未计入进度的秒数
+ */
+export function getRunningSeconds(timer: HabitTimerState | undefined, now: number = Date.now()): number {
+  if (!timer || timer.status !== 'running' || !timer.startedAt) return 0
+  return Math.max(0, Math.floor((now - new Date(timer.startedAt).getTime()) / 1000))
+}
+
+/**
+ * 判断本地存储事件是否与计时器相关
+ */
+export function isTimersStorageKey(key: string | null): boolean {
+  return key === TIMERS_STORAGE_KEY
+}
+
+/**
+ * 将秒数格式化为 mm:ss 或 h:mm:ss
+ */
+export function formatDuration(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  const pad = (value: number) => value.toString().padStart(2, '0')
+
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(seconds)}`
+    : `${pad(minutes)}:${pad(seconds)}`
+}
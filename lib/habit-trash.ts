@@ -0,0 +1,58 @@
+// 回收站 - 删除的习惯先移入回收站，保留期内可连同历史记录一起恢复
+
+import { AppSettings } from './types'
+import { DEFAULT_SETTINGS } from './app-settings'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// 可选的保留天数
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 60, 90]
+
+export interface TrashableHabit {
+  id: string
+  deletedAt?: string
+}
+
+/**
+ * 获取回收站保留天数
+ */
+export function getRetentionDays(settings: AppSettings): number {
+  return settings.trashRetentionDays || DEFAULT_SETTINGS.trashRetentionDays || 30
+}
+
+/**
+ * 计算回收站中的习惯还剩几天被彻底删除
+ */
+export function getDaysUntilPurge(habit: TrashableHabit, retentionDays: number, now: number = Date.now()): number {
+  if (!habit.deletedAt) return retentionDays
+  const elapsed = now - new Date(habit.deletedAt).getTime()
+  return Math.max(0, Math.ceil((retentionDays * DAY_MS - elapsed) / DAY_MS))
+}
+
+/**
+ * 判断回收站中的习惯是否已超过保留期
+ */
+export function isTrashExpired(habit: TrashableHabit, retentionDays: number, now: number = Date.now()): boolean {
+  if (!habit.deletedAt) return false
+  return now - new Date(habit.deletedAt).getTime() >= retentionDays * DAY_MS
+}
+
+/**
+ * 分离出超过保留期、需要彻底删除的习惯
+ */
+export function splitExpiredTrash<T extends TrashableHabit>(
+  habits: T[],
+  retentionDays: number,
+  now: number = Date.now()
+): { kept: T[]; expiredIds: string[] } {
+  const kept: T[] = []
+  const expiredIds: string[] = []
+  for (const habit of habits) {
+    if (isTrashExpired(habit, retentionDays, now)) {
+      expiredIds.push(habit.id)
+    } else {
+      kept.push(habit)
+    }
+  }
+  return { kept, expiredIds }
+}
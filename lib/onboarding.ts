@@ -0,0 +1,25 @@
+// 新手引导 - 记录本设备是否已完成首次使用的引导
+
+const ONBOARDING_KEY = 'onboardingCompleted'
+
+/**
+ * 判断是否需要显示新手引导：尚未完成引导且本地没有任何功课
+ */
+export function shouldShowOnboarding(): boolean {
+  try {
+    return !localStorage.getItem(ONBOARDING_KEY) && !localStorage.getItem('dailyTodos')
+  } catch {
+    return false
+  }
+}
+
+/**
+ * 标记新手引导已完成（跳过也视为完成）
+ */
+export function markOnboardingCompleted(): void {
+  try {
+    localStorage.setItem(ONBOARDING_KEY, new Date().toISOString())
+  } catch (error) {
+    console.error('Failed to save onboarding state:', error)
+  }
+}
@@ -2,9 +2,20 @@
 
 import { authManager } from './auth-manager'
 import { secureStorage } from './secure-storage'
+import { loadHistory, saveHistory, mergeHistory, toDateKey, toResetDateKey } from './habit-history'
+import { getTargetValue, isProgressHabit, isTargetReached, mergeProgress } from './habit-progress'
+import { sortByOrder } from './habit-order'
+import { loadSettings, mergeSettings, saveSettings } from './app-settings'
+import { hasStaleDailyState, resetDailyState, rolloverIfNewDay } from './daily-rollover'
 import { 
   HabitsData, 
   HabitItem, 
+  HabitSchedule,
+  HabitKind,
+  CountProgress,
+  HabitSubtask,
+  HabitSlot,
+  CheckInWindow,
   SyncStatus, 
   SyncResult, 
   ConflictInfo, 
@@ -43,6 +54,7 @@ class SyncManager {
     retryDelay: 2000 // 2秒
   }
   private listeners: Array<(state: SyncState) => void> = []
+  private rolloverListeners: Array<() => void> = []
   private syncTimer: NodeJS.Timeout | null = null
   private isOnline = true
   private lastDataHash = ''
@@ -135,6 +147,11 @@ class SyncManager {
     this.updateSyncState({ status: 'syncing', lastError: null })
 
     try {
+      // 跨天后先完成每日重置，避免把前一天的完成状态同步出去；无论同步结果如何都通知页面重新加载
+      if (rolloverIfNewDay()) {
+        this.notifyRollover()
+      }
+
       // 获取本地数据
       const localData = await this.getLocalData()
       
@@ -277,13 +294,21 @@ class SyncManager {
    * 检查两个习惯项是否有冲突
    */
   private hasConflict(local: HabitItem, remote: HabitItem): boolean {
+    const localTime = new Date(local.updatedAt || local.createdAt).getTime()
+    const remoteTime = new Date(remote.updatedAt || remote.createdAt).getTime()
+
+    // 只有两端都在上次同步之后修改过，才可能是并发修改；否则直接按修改时间合并
+    const lastSyncTime = this.syncState.lastSyncTime ? new Date(this.syncState.lastSyncTime).getTime() : 0
+    if (localTime <= lastSyncTime || remoteTime <= lastSyncTime) return false
+
     // 如果文本内容不同
     if (local.text !== remote.text) return true
     
+    // 计数/计时型习惯的进度可以按设备合并，不算冲突
+    if (isProgressHabit(local) && isProgressHabit(remote)) return false
+
     // 如果完成状态不同且修改时间接近（可能是并发修改）
     if (local.completed !== remote.completed) {
-      const localTime = new Date(local.updatedAt || local.createdAt).getTime()
-      const remoteTime = new Date(remote.updatedAt || remote.createdAt).getTime()
       const timeDiff = Math.abs(localTime - remoteTime)
       
       // 如果修改时间相差小于1小时，认为是冲突
@@ -321,7 +346,9 @@ class SyncManager {
         const localTime = new Date(localHabit.updatedAt || localHabit.createdAt).getTime()
         const remoteTime = new Date(remoteHabit.updatedAt || remoteHabit.createdAt).getTime()
         
-        mergedHabits.push(localTime >= remoteTime ? localHabit : remoteHabit)
+        const newer = localTime >= remoteTime ? localHabit : remoteHabit
+        const merged = this.mergeHabitProgress(newer, localHabit, remoteHabit)
+        mergedHabits.push(this.mergeHabitTags(this.mergeHabitOrder(merged, localHabit, remoteHabit), localHabit, remoteHabit))
       } else if (localHabit) {
         // 只有本地有（新增的本地习惯）
         mergedHabits.push(localHabit)
@@ -348,20 +375,73 @@ class SyncManager {
     // 清理过期的删除记录
     this.cleanupDeletedIds()
 
-    // 返回合并后的数据，使用较新的元数据
+    // 尚未跨天的设备上传的仍是前一天的打卡状态，不能带到今天
+    const today = toDateKey()
+    const currentHabits = mergedHabits.map(habit => hasStaleDailyState(habit, today) ? resetDailyState(habit) : habit)
+
+    // 返回合并后的数据，使用较新的元数据（设置按各自的修改时间合并）
     const localTime = new Date(local.lastSync).getTime()
     const remoteTime = new Date(remote.lastSync).getTime()
     const newerMeta = localTime >= remoteTime ? local : remote
 
     return {
       ...newerMeta,
-      habits: mergedHabits.sort((a, b) => 
-        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
-      ),
+      habits: sortByOrder(currentHabits),
+      history: mergeHistory(local.history || {}, remote.history || {}),
+      settings: mergeSettings(local.settings, remote.settings),
       lastSync: new Date().toISOString()
     }
   }
 
+  /**
+   * 合并计数/计时型习惯两端的进度，避免多设备同时计数时丢失
+   */
+  private mergeHabitProgress(base: HabitItem, local: HabitItem, remote: HabitItem): HabitItem {
+    if (!isProgressHabit(base) || !local.progress || !remote.progress) {
+      return base
+    }
+
+    const progress = mergeProgress(local.progress, remote.progress)
+    const completed = isTargetReached(progress, getTargetValue(base))
+
+    return {
+      ...base,
+      progress,
+      completed,
+      completedAt: completed ? base.completedAt || local.completedAt || remote.completedAt : undefined
+    }
+  }
+
+  /**
+   * 排序键单独以较新的修改为准，避免一端重新排序被另一端的其他修改覆盖
+   */
+  private mergeHabitOrder(base: HabitItem, local: HabitItem, remote: HabitItem): HabitItem {
+    const localOrderedAt = new Date(local.orderedAt || 0).getTime()
+    const remoteOrderedAt = new Date(remote.orderedAt || 0).getTime()
+    const newerOrder = localOrderedAt >= remoteOrderedAt ? local : remote
+
+    return {
+      ...base,
+      order: newerOrder.order,
+      orderedAt: newerOrder.orderedAt
+    }
+  }
+
+  /**
+   * 标签单独以较新的修改为准，避免一端修改标签被另一端的打卡覆盖
+   */
+  private mergeHabitTags(base: HabitItem, local: HabitItem, remote: HabitItem): HabitItem {
+    const localTaggedAt = new Date(local.tagsUpdatedAt || 0).getTime()
+    const remoteTaggedAt = new Date(remote.tagsUpdatedAt || 0).getTime()
+    const newerTags = localTaggedAt >= remoteTaggedAt ? local : remote
+
+    return {
+      ...base,
+      tags: newerTags.tags,
+      tagsUpdatedAt: newerTags.tagsUpdatedAt
+    }
+  }
+
   /**
    * 解决冲突
    */
@@ -408,6 +488,8 @@ class SyncManager {
     const resolvedData: HabitsData = {
       ...localData,
       habits: Array.from(resolvedHabits.values()),
+      history: mergeHistory(localData.history || {}, remoteData.history || {}),
+      settings: mergeSettings(localData.settings, remoteData.settings),
       lastSync: new Date().toISOString()
     }
 
@@ -456,7 +538,8 @@ class SyncManager {
     try {
       // 从localStorage读取当前数据格式
       const todosString = localStorage.getItem('dailyTodos')
-      const lastResetDate = localStorage.getItem('lastResetDate') || new Date().toDateString()
+      const savedResetDate = localStorage.getItem('lastResetDate')
+      const lastResetDate = savedResetDate ? toResetDateKey(savedResetDate) : toDateKey()
 
       if (todosString) {
         const todos = JSON.parse(todosString) as Array<{
@@ -464,7 +547,26 @@ class SyncManager {
           text: string
           completed: boolean
           hidden?: boolean
+          completedAt?: string
+          schedule?: HabitSchedule
+          kind?: HabitKind
+          target?: number
+          unit?: string
+          progress?: CountProgress
+          group?: string
+          order?: number
+          orderedAt?: string
+          archivedAt?: string
+          deletedAt?: string
+          reminderTime?: string
+          skipReason?: string
+          subtasks?: HabitSubtask[]
+          slot?: HabitSlot
+          window?: CheckInWindow
+          tags?: string[]
+          tagsUpdatedAt?: string
           createdAt: string
+          updatedAt?: string
         }>
 
         const habits: HabitItem[] = todos.map(todo => ({
@@ -472,8 +574,26 @@ class SyncManager {
           text: todo.text,
           completed: todo.completed,
           hidden: todo.hidden || false,
+          completedAt: todo.completedAt,
+          schedule: todo.schedule,
+          kind: todo.kind,
+          target: todo.target,
+          unit: todo.unit,
+          progress: todo.progress,
+          group: todo.group,
+          order: todo.order,
+          orderedAt: todo.orderedAt,
+          archivedAt: todo.archivedAt,
+          deletedAt: todo.deletedAt,
+          reminderTime: todo.reminderTime,
+          skipReason: todo.skipReason,
+          subtasks: todo.subtasks,
+          slot: todo.slot,
+          window: todo.window,
+          tags: todo.tags,
+          tagsUpdatedAt: todo.tagsUpdatedAt,
           createdAt: todo.createdAt,
-          updatedAt: todo.createdAt // 如果没有更新时间，使用创建时间
+          updatedAt: todo.updatedAt || todo.createdAt // 旧数据没有更新时间，使用创建时间
         }))
 
         return {
@@ -481,17 +601,17 @@ class SyncManager {
           lastSync: new Date().toISOString(),
           lastResetDate,
           habits,
+          history: loadHistory(),
           settings: {
-            theme: 'light',
+            ...loadSettings(),
             autoSync: this.config.autoSync,
-            syncInterval: this.config.syncInterval,
-            encryptionEnabled: true
+            syncInterval: this.config.syncInterval
           }
         }
       }
 
-      // 返回默认数据
-      return this.getDefaultHabitsData()
+      // 返回默认数据（保留本地已有的打卡历史）
+      return { ...this.getDefaultHabitsData(), history: loadHistory() }
     } catch (error) {
       console.error('Failed to get local data:', error)
       return this.getDefaultHabitsData()
@@ -530,12 +650,40 @@ class SyncManager {
         text: habit.text,
         completed: habit.completed,
         hidden: habit.hidden,
-        createdAt: habit.createdAt
+        completedAt: habit.completedAt,
+        schedule: habit.schedule,
+        kind: habit.kind,
+        target: habit.target,
+        unit: habit.unit,
+        progress: habit.progress,
+        group: habit.group,
+        order: habit.order,
+        orderedAt: habit.orderedAt,
+        archivedAt: habit.archivedAt,
+        deletedAt: habit.deletedAt,
+        reminderTime: habit.reminderTime,
+        skipReason: habit.skipReason,
+        subtasks: habit.subtasks,
+        slot: habit.slot,
+        window: habit.window,
+        tags: habit.tags,
+        tagsUpdatedAt: habit.tagsUpdatedAt,
+        createdAt: habit.createdAt,
+        updatedAt: habit.updatedAt
       }))
 
       localStorage.setItem('dailyTodos', JSON.stringify(todos))
       localStorage.setItem('lastResetDate', data.lastResetDate)
 
+      // 远程旧数据可能没有历史字段，此时不覆盖本地历史
+      if (data.history) {
+        saveHistory(data.history)
+      }
+      // 合并后的设置是完整的一份，直接覆盖（已清除的字段不会残留）
+      if (data.settings) {
+        saveSettings(data.settings)
+      }
+
       // 同时保存完整数据到加密存储
       await secureStorage.setItem('habits_data', data, true)
     } catch (error) {
@@ -579,7 +727,7 @@ class SyncManager {
     return {
       version: '1.0',
       lastSync: new Date().toISOString(),
-      lastResetDate: new Date().toDateString(),
+      lastResetDate: toDateKey(),
       habits: [],
       settings: {
         theme: 'light',
@@ -611,6 +759,19 @@ class SyncManager {
     })
   }
 
+  /**
+   * 通知每日重置监听器
+   */
+  private notifyRollover(): void {
+    this.rolloverListeners.forEach(listener => {
+      try {
+        listener()
+      } catch (error) {
+        console.error('Rollover listener error:', error)
+      }
+    })
+  }
+
   /**
    * 保存同步状态
    */
@@ -740,6 +901,26 @@ class SyncManager {
     }
   }
 
+  /**
+   * 移除习惯的删除记录（从回收站恢复时调用，避免同步时被当作已删除丢弃）
+   */
+  unmarkHabitAsDeleted(id: string): void {
+    try {
+      const deletedIds = localStorage.getItem('deleted_habits')
+      if (!deletedIds) return
+
+      const data = JSON.parse(deletedIds) as Array<{id: string, deletedAt: string}>
+      const remaining = data.filter(item => item.id !== id)
+
+      if (remaining.length !== data.length) {
+        localStorage.setItem('deleted_habits', JSON.stringify(remaining))
+        console.log(`Unmarked habit ${id} as deleted`)
+      }
+    } catch (error) {
+      console.error('Failed to unmark habit as deleted:', error)
+    }
+  }
+
   // 公共方法
 
   /**
@@ -763,6 +944,20 @@ class SyncManager {
     }
   }
 
+  /**
+   * 监听同步前执行的每日重置（本地的功课与历史已改变）
+   */
+  onRollover(listener: () => void): () => void {
+    this.rolloverListeners.push(listener)
+
+    return () => {
+      const index = this.rolloverListeners.indexOf(listener)
+      if (index > -1) {
+        this.rolloverListeners.splice(index, 1)
+      }
+    }
+  }
+
   /**
    * 设置同步配置
    */
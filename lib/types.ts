@@ -5,15 +5,71 @@ export interface HabitItem {
   text: string
   completed: boolean
   hidden: boolean
+  completedAt?: string
+  schedule?: HabitSchedule  // 未设置时视为每天
+  kind?: HabitKind  // 未设置时视为打勾型
+  target?: number  // 计数型为每日目标数量，计时型为目标分钟数
+  unit?: string  // 计数单位，如「杯」「页」
+  progress?: CountProgress  // 计数/计时型习惯当天的进度（计时型以秒为单位）
+  group?: string  // 所属分组名称，如「晨课」「晚课」
+  order?: number  // 排序键，未设置时按创建时间排序
+  orderedAt?: string  // 排序键的修改时间，合并时以较新的排序为准
+  archivedAt?: string  // 归档时间，已归档的习惯暂停打卡且不计入统计，历史记录保留
+  deletedAt?: string  // 移入回收站的时间，保留期内可恢复
+  reminderTime?: string  // 每日提醒时间（HH:mm），未设置时不提醒
+  skipReason?: string  // 今日跳过的原因，如「生病」「出差」
+  subtasks?: HabitSubtask[]  // 有序的子步骤清单，打勾型习惯的步骤全部完成时自动完成
+  slot?: HabitSlot  // 所属时段，未设置视为任意时段
+  window?: CheckInWindow  // 允许打卡的时间窗，此外的打卡记为不准时
+  tags?: string[]  // 自由标签，用于筛选
+  tagsUpdatedAt?: string  // 标签的修改时间，合并时以较新的标签为准
   createdAt: string
   updatedAt: string
 }
 
+// 时段：晨 / 午 / 晚 / 任意
+export type HabitSlot = 'morning' | 'afternoon' | 'evening' | 'anytime'
+
+// 打卡时间窗（HH:mm，常驻时区），只设开始或结束表示「之后」「之前」，可跨午夜
+export interface CheckInWindow {
+  start?: string
+  end?: string
+}
+
+// 子步骤：如「晨间例行」中的「喝水」「拉伸」，每日重置时一并清空
+export interface HabitSubtask {
+  id: string
+  text: string
+  completed: boolean
+}
+
+// 习惯类型：打勾完成 / 计数达标 / 计时达标
+export type HabitKind = 'check' | 'count' | 'duration'
+
+// 计数进度：按设备分别记录增减次数，合并时逐设备取最大值，多设备同时计数不会丢失
+export interface CountProgress {
+  date: string  // 日期键，进度只在当天有效
+  inc: Record<string, number>  // 设备ID → 累计增加量
+  dec: Record<string, number>  // 设备ID → 累计减少量
+}
+
+// 习惯计划：每天 / 每周固定几天 / 每隔N天 / 每周N次 / 每月N次
+export type HabitSchedule =
+  | { type: 'daily' }
+  | { type: 'weekdays'; days: number[] }  // 0 = 周日 ... 6 = 周六
+  | { type: 'interval'; every: number; startDate: string }  // startDate 为日期键
+  | { type: 'weekly'; times: number }
+  | { type: 'monthly'; times: number }
+
+// 按周期计次的计划（每周N次 / 每月N次）
+export type QuotaSchedule = Extract<HabitSchedule, { type: 'weekly' | 'monthly' }>
+
 export interface HabitsData {
   version: string
   lastSync: string
   lastResetDate: string
   habits: HabitItem[]
+  history?: HabitHistory
   settings: AppSettings
 }
 
@@ -22,8 +78,62 @@ export interface AppSettings {
   autoSync: boolean
   syncInterval: number
   encryptionEnabled: boolean
+  trashRetentionDays?: number  // 回收站保留天数，未设置时为30天
+  reminders?: ReminderSettings  // 提醒设置，未设置时不提醒
+  dayStartHour?: number  // 一天的起点（0-12 点），此前的时间算作前一天
+  timeZone?: string  // 常驻时区（IANA 名称），未设置时跟随设备
+  skipPolicy?: SkipPolicy  // 跳过的日子在统计与连续天数中的算法，未设置时不计入
+  savedViews?: SavedView[]  // 保存的列表筛选视图
+  updatedAt?: string  // 设置的修改时间，同步时以较新的一端为准（旧数据没有此字段）
 }
 
+// 列表筛选条件
+export interface HabitFilter {
+  tags: string[]  // 须同时带有的标签，为空时不限
+  status: 'all' | 'completed' | 'incomplete'
+  dueOnly: boolean  // 只显示今日需要打卡的功课
+}
+
+// 保存的筛选视图
+export interface SavedView {
+  id: string
+  name: string
+  filter: HabitFilter
+}
+
+// 跳过的算法：不计入（既不中断连续也不计入分母）/ 视为错过
+export type SkipPolicy = 'excused' | 'missed'
+
+export interface ReminderSettings {
+  enabled: boolean
+  snoozeMinutes: number  // 稍后提醒的间隔
+  quietHoursEnabled: boolean
+  quietStart: string  // 免打扰开始时间（HH:mm），可跨午夜
+  quietEnd: string  // 免打扰结束时间（HH:mm）
+}
+
+// 打卡历史相关类型
+export interface CheckInRecord {
+  completed: boolean
+  skipped: boolean
+  skipReason?: string  // 跳过的原因
+  completedAt?: string
+  target?: number  // 计数/计时型习惯当天的目标（与进度单位一致）
+  progress?: CountProgress  // 计数/计时型习惯当天的进度
+  minutes?: number  // 计时型习惯当天累计的分钟数
+  subtasks?: Record<string, boolean>  // 子步骤ID → 当天是否完成
+  onTime?: boolean  // 设有时间窗的习惯是否在时间窗内完成
+  note?: string  // 当天的打卡笔记
+  noteUpdatedAt?: string  // 笔记的修改时间，合并时以较新的笔记为准
+  missed?: boolean  // 应用未打开的日子补记的未完成记录，合并时让位于实际打卡记录
+  optional?: boolean  // 每周/每月N次的习惯当天未完成（不计为错过，统计时不计入分母）
+  editedAt?: string  // 事后修改（补打卡）的时间，用于标记非当天的打卡
+  updatedAt: string
+}
+
+// 日期键(YYYY-MM-DD) → 习惯ID → 打卡记录
+export type HabitHistory = Record<string, Record<string, CheckInRecord>>
+
 // GitHub相关类型
 export interface GitHubUser {
   login: string
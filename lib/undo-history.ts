@@ -0,0 +1,109 @@
+// 撤销/重做 - 按习惯记录每次修改前后的状态，只回退被修改的习惯
+
+// 撤销栈的最大长度
+export const MAX_UNDO_ENTRIES = 50
+
+export interface UndoableItem {
+  id: string
+  order?: number
+  orderedAt?: string
+  tags?: string[]
+  tagsUpdatedAt?: string
+  updatedAt?: string
+}
+
+export interface UndoChange<T> {
+  id: string
+  before?: T  // 为空表示修改前不存在（新增）
+  after?: T  // 为空表示修改后不存在（彻底删除）
+}
+
+export interface UndoEntry<T> {
+  label: string  // 操作名称，如「完成功课」「重置功课」
+  changes: UndoChange<T>[]
+}
+
+export interface AppliedUndo<T> {
+  items: T[]
+  removedIds: string[]  // 回退后不再存在的习惯
+  restoredIds: string[]  // 回退后重新出现的习惯
+}
+
+/**
+ * 对比修改前后的列表，生成撤销记录（没有变化时返回 null）
+ */
+export function createUndoEntry<T extends UndoableItem>(
+  label: string,
+  previous: T[],
+  next: T[]
+): UndoEntry<T> | null {
+  const previousById = new Map(previous.map(item => [item.id, item]))
+  const nextById = new Map(next.map(item => [item.id, item]))
+  const changes: UndoChange<T>[] = []
+
+  for (const id of new Set([...previousById.keys(), ...nextById.keys()])) {
+    const before = previousById.get(id)
+    const after = nextById.get(id)
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      changes.push({ id, before, after })
+    }
+  }
+
+  return changes.length > 0 ? { label, changes } : null
+}
+
+/**
+ * 将撤销记录应用到当前列表
+ * - undo 回到修改前，redo 回到修改后，未涉及的习惯保持不变
+ * - 回退的习惯使用新的修改时间，使其在同步合并时胜过旧版本
+ * - restore 可调整回退后的习惯，如以增量方式回退计数进度
+ */
+export function applyUndoEntry<T extends UndoableItem>(
+  items: T[],
+  entry: UndoEntry<T>,
+  direction: 'undo' | 'redo',
+  restore: (target: T, current: T | undefined) => T = (target) => target,
+  now: string = new Date().toISOString()
+): AppliedUndo<T> {
+  const targets = new Map(
+    entry.changes.map(change => [change.id, direction === 'undo' ? change.before : change.after])
+  )
+  const currentIds = new Set(items.map(item => item.id))
+  const result: AppliedUndo<T> = { items: [], removedIds: [], restoredIds: [] }
+
+  for (const item of items) {
+    if (!targets.has(item.id)) {
+      result.items.push(item)
+      continue
+    }
+    const target = targets.get(item.id)
+    if (target) {
+      result.items.push(stampRestored(restore(target, item), item, now))
+    } else {
+      result.removedIds.push(item.id)
+    }
+  }
+
+  for (const [id, target] of targets) {
+    if (target && !currentIds.has(id)) {
+      result.items.push(stampRestored(restore(target, undefined), undefined, now))
+      result.restoredIds.push(id)
+    }
+  }
+
+  return result
+}
+
+/**
+ * 更新回退后习惯的修改时间，排序或标签变化时同时更新对应的修改时间
+ */
+function stampRestored<T extends UndoableItem>(target: T, current: T | undefined, now: string): T {
+  const orderChanged = current?.order !== target.order
+  const tagsChanged = JSON.stringify(current?.tags) !== JSON.stringify(target.tags)
+  return {
+    ...target,
+    updatedAt: now,
+    orderedAt: orderChanged ? now : target.orderedAt,
+    tagsUpdatedAt: tagsChanged ? now : target.tagsUpdatedAt
+  }
+}
@@ -0,0 +1,38 @@
+// 习惯提醒 Service Worker - 处理通知中的「完成」「稍后提醒」按钮
+
+self.addEventListener('install', () => {
+  self.skipWaiting()
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim())
+})
+
+self.addEventListener('notificationclick', (event) => {
+  const habitId = event.notification.data && event.notification.data.habitId
+  const action = event.action || 'open'
+  event.notification.close()
+
+  if (!habitId) return
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const message = { type: 'reminder-action', action, habitId }
+
+      if (clients.length > 0) {
+        // 交给已打开的页面处理，点击通知本身时切换到该页面
+        clients.forEach((client) => client.postMessage(message))
+        if (action === 'open' && 'focus' in clients[0]) {
+          return clients[0].focus()
+        }
+        return
+      }
+
+      // 应用未打开时通过地址参数把操作带给新页面
+      const url = new URL(self.registration.scope)
+      url.searchParams.set('reminderAction', action)
+      url.searchParams.set('habitId', habitId)
+      return self.clients.openWindow(url.toString())
+    })
+  )
+})